@@ -12,6 +12,7 @@ interface Project {
 async function advancedExample() {
   const client = new AirtableClient({
     apiKey: process.env.AIRTABLE_API_KEY!,
+    retry: { maxAttempts: 5 },
   });
 
   const base = client.base('appXXXXXXXXXXXXXX');
@@ -68,8 +69,7 @@ async function advancedExample() {
     console.log(`Total projects: ${allProjects.length}`);
   } catch (error) {
     if (error instanceof RateLimitError) {
-      console.error('Rate limit hit! Implement exponential backoff');
-      // Implement retry logic here
+      console.error(`Rate limit hit after ${error.attempts} attempts`);
     } else if (error instanceof AirtableError) {
       console.error('Airtable API error:');
       console.error('  Message:', error.message);
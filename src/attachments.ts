@@ -0,0 +1,120 @@
+import { AbortError, AirtableError } from './errors';
+import { AttachmentData, AttachmentDestination } from './types';
+
+/** Largest file accepted by the upload endpoint */
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Read upload data into memory, failing as soon as it exceeds the limit
+ */
+export async function readAttachmentData(
+  data: AttachmentData,
+  filename: string,
+  limit = MAX_UPLOAD_BYTES
+): Promise<Uint8Array> {
+  const checkSize = (size: number) => {
+    if (size > limit) {
+      throw new AirtableError(
+        `Attachment "${filename}" is larger than the ${limit} byte upload limit`,
+        undefined,
+        'ATTACHMENT_TOO_LARGE'
+      );
+    }
+  };
+
+  if (data instanceof Uint8Array) {
+    checkSize(data.byteLength);
+    return data;
+  }
+  if ('arrayBuffer' in data) {
+    checkSize(data.size);
+    return new Uint8Array(await data.arrayBuffer());
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const stream = 'getReader' in data ? readStream(data) : data;
+  for await (const chunk of stream) {
+    size += chunk.byteLength;
+    checkSize(size);
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Stream a response body to a web or Node.js writable
+ */
+export async function writeToDestination(
+  body: ReadableStream<Uint8Array>,
+  destination: AttachmentDestination,
+  signal?: AbortSignal
+): Promise<void> {
+  if ('getWriter' in destination) {
+    await body.pipeTo(destination, { signal });
+    return;
+  }
+
+  // A writable that fails or closes early never drains, so wait for either
+  let failure: unknown;
+  let wake: (() => void) | undefined;
+  const onError = (error?: unknown) => {
+    failure ??=
+      error ??
+      new AirtableError(
+        'The destination closed before the download completed',
+        undefined,
+        'DESTINATION_CLOSED'
+      );
+    wake?.();
+  };
+  const onClose = () => onError();
+  destination.once('error', onError);
+  destination.once('close', onClose);
+
+  try {
+    for await (const chunk of readStream(body)) {
+      if (signal?.aborted) {
+        throw new AbortError();
+      }
+      if (failure === undefined && !destination.write(chunk)) {
+        await new Promise<void>(resolve => {
+          wake = () => resolve();
+          destination.once('drain', wake);
+        });
+        destination.removeListener?.('drain', wake!);
+        wake = undefined;
+      }
+      if (failure !== undefined) {
+        throw failure;
+      }
+    }
+    destination.end();
+  } catch (error) {
+    await body.cancel().catch(() => undefined);
+    throw error;
+  } finally {
+    destination.removeListener?.('error', onError);
+    destination.removeListener?.('close', onClose);
+  }
+}
+
+/**
+ * Iterate over the chunks of a web stream
+ */
+export async function* readStream(
+  stream: ReadableStream<Uint8Array>
+): AsyncIterableIterator<Uint8Array> {
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -1,24 +1,90 @@
+import { HttpClient } from './http';
+import { RateLimiter } from './rate-limiter';
 import { AirtableTable } from './table';
-import { FieldSet } from './types';
+import {
+  BaseSchema,
+  CreateTableInput,
+  Credentials,
+  FieldSet,
+  RequestOptions,
+  TableConfig,
+  TableMap,
+  TableOptions,
+  TableSchema,
+} from './types';
+import { AirtableWebhooks } from './webhooks';
+
+/**
+ * An Airtable base. `S` optionally maps table names to record types so
+ * `table()` can infer them, and is usually generated with `airtable-typegen`.
+ */
+export class AirtableBase<S extends TableMap<S> = object> {
+  /** Webhooks of this base */
+  readonly webhooks: AirtableWebhooks;
+  private readonly http: HttpClient;
 
-export class AirtableBase {
   constructor(
     private readonly baseId: string,
-    private readonly apiKey: string,
-    private readonly baseUrl: string
-  ) {}
+    private readonly credentials: string | Credentials,
+    private readonly baseUrl: string,
+    private readonly options: TableOptions = {}
+  ) {
+    this.http = new HttpClient(this.credentials, this.options);
+    this.webhooks = new AirtableWebhooks(this.baseId, this.baseUrl, this.http);
+  }
 
   /**
    * Get a table instance
    */
+  table<K extends keyof S & string>(
+    tableName: K,
+    config?: TableConfig
+  ): AirtableTable<S[K]>;
   table<T extends FieldSet = FieldSet>(
-    tableIdOrName: string
-  ): AirtableTable<T> {
-    return new AirtableTable<T>(
+    tableIdOrName: string,
+    config?: TableConfig
+  ): AirtableTable<T>;
+  table(tableIdOrName: string, config: TableConfig = {}): AirtableTable {
+    return new AirtableTable(
       this.baseId,
       tableIdOrName,
-      this.apiKey,
-      this.baseUrl
+      this.credentials,
+      this.baseUrl,
+      { ...this.options, ...config }
+    );
+  }
+
+  /**
+   * Get the tables, fields and views of this base
+   */
+  async getSchema(options: RequestOptions = {}): Promise<BaseSchema> {
+    return this.http.request<BaseSchema>(
+      'GET',
+      `${this.baseUrl}/meta/bases/${this.baseId}/tables`,
+      undefined,
+      options
+    );
+  }
+
+  /**
+   * Create a new table
+   */
+  async createTable(
+    table: CreateTableInput,
+    options: RequestOptions = {}
+  ): Promise<TableSchema> {
+    return this.http.request<TableSchema>(
+      'POST',
+      `${this.baseUrl}/meta/bases/${this.baseId}/tables`,
+      table,
+      options
     );
   }
+
+  /**
+   * Get the rate limiter shared by this base's tables
+   */
+  getRateLimiter(): RateLimiter | undefined {
+    return this.options.rateLimiter;
+  }
 }
@@ -0,0 +1,141 @@
+import { AbortError, AirtableError } from './errors';
+import { BatchFailure, BatchOptions, BatchResult } from './types';
+
+/** Maximum number of records per write request */
+export const BATCH_SIZE = 10;
+
+/**
+ * Map items with up to `concurrency` calls in flight, keeping results in
+ * input order. After the first error no new calls are started.
+ */
+export async function mapConcurrent<I, R>(
+  items: I[],
+  concurrency: number,
+  fn: (item: I, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(concurrency), items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Send items in chunks, collecting results and failed chunks instead of
+ * throwing. Stops at the first failure unless `continueOnError` is set, and
+ * always stops when the operation is aborted. Chunks already in flight when
+ * it stops are still recorded.
+ */
+export async function runBatch<I, R>(
+  items: I[],
+  options: BatchOptions,
+  send: (chunk: I[]) => Promise<R[]>
+): Promise<BatchResult<I, R>> {
+  const indices = options.resumeToken
+    ? decodeResumeToken(options.resumeToken, items.length)
+    : items.map((_, index) => index);
+
+  const chunks: number[][] = [];
+  for (let i = 0; i < indices.length; i += BATCH_SIZE) {
+    chunks.push(indices.slice(i, i + BATCH_SIZE));
+  }
+
+  let stopped = false;
+  const outcomes = await mapConcurrent(
+    chunks,
+    options.concurrency ?? 1,
+    async (chunk): Promise<{ results?: R[]; error?: AirtableError }> => {
+      if (stopped) {
+        return {};
+      }
+
+      try {
+        return { results: await send(chunk.map(index => items[index])) };
+      } catch (error) {
+        if (!(error instanceof AirtableError)) {
+          throw error;
+        }
+        if (!options.continueOnError || error instanceof AbortError) {
+          stopped = true;
+        }
+        return { error };
+      }
+    }
+  );
+
+  const succeeded: R[] = [];
+  const failed: Array<BatchFailure<I>> = [];
+  const pending: number[] = [];
+
+  outcomes.forEach(({ results, error }, i) => {
+    if (results) {
+      succeeded.push(...results);
+      return;
+    }
+    if (error) {
+      const input = chunks[i].map(index => items[index]);
+      failed.push({ indices: chunks[i], input, error });
+    }
+    pending.push(...chunks[i]);
+  });
+
+  return {
+    succeeded,
+    failed,
+    resumeToken: pending.length > 0 ? encodeResumeToken(pending) : undefined,
+  };
+}
+
+/**
+ * Encode input positions as ranges, e.g. `20-29,45`
+ */
+export function encodeResumeToken(indices: number[]): string {
+  const ranges: string[] = [];
+
+  for (let i = 0; i < indices.length; i++) {
+    const start = indices[i];
+    while (i + 1 < indices.length && indices[i + 1] === indices[i] + 1) {
+      i++;
+    }
+    ranges.push(start === indices[i] ? `${start}` : `${start}-${indices[i]}`);
+  }
+
+  return ranges.join(',');
+}
+
+export function decodeResumeToken(token: string, length: number): number[] {
+  const indices: number[] = [];
+
+  for (const range of token.split(',')) {
+    const match = /^(\d+)(?:-(\d+))?$/.exec(range);
+    const start = match ? Number(match[1]) : NaN;
+    const end = match && match[2] !== undefined ? Number(match[2]) : start;
+
+    if (Number.isNaN(start) || end < start || end >= length) {
+      throw new AirtableError(
+        `Invalid resume token "${token}" for ${length} records`,
+        undefined,
+        'INVALID_RESUME_TOKEN'
+      );
+    }
+    for (let index = start; index <= end; index++) {
+      indices.push(index);
+    }
+  }
+
+  return indices;
+}
@@ -0,0 +1,157 @@
+import { createHash } from 'crypto';
+import { CacheMode, CacheOptions, CacheStore } from './types';
+
+const IGNORED_OPTIONS = new Set([
+  'signal',
+  'timeoutMs',
+  'cache',
+  'concurrency',
+  'expand',
+  'expandDepth',
+  'method',
+]);
+
+/**
+ * In-memory cache store that evicts the least recently used entries
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<
+    string,
+    { value: string; expiresAt?: number }
+  >();
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  get(key: string): string | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    // Re-insert so iteration order tracks recency
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: string, ttlMs?: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: ttlMs ? Date.now() + ttlMs : undefined,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Read-through cache for record reads, shared by the tables of a client.
+ * Each scope (a base) has a version stored alongside its entries; writes
+ * replace the version so older entries are never read again and expire on
+ * their own. Entries are also keyed by a namespace, so clients with
+ * different credentials never read each other's responses from a shared
+ * store.
+ */
+export class ResponseCache {
+  private readonly store: CacheStore;
+  private readonly ttlMs: number;
+  private readonly namespace: string;
+
+  /**
+   * Without a `namespace` option, entries are shared by clients using the
+   * same API key, and private to this cache for other credentials
+   */
+  constructor(options: CacheOptions = {}, apiKey?: string) {
+    this.store = options.store || new MemoryCacheStore(options.maxEntries);
+    this.ttlMs = options.ttlMs ?? 60000;
+    this.namespace =
+      options.namespace ??
+      (apiKey
+        ? createHash('sha256').update(apiKey).digest('hex').slice(0, 16)
+        : newVersion());
+  }
+
+  /**
+   * Return the cached value for a key, or load and store it
+   */
+  async read<R>(
+    scope: string,
+    key: string,
+    load: () => Promise<R>,
+    mode?: CacheMode
+  ): Promise<R> {
+    if (mode === 'no-store') {
+      return load();
+    }
+
+    const version = await this.version(scope);
+    const entryKey = `airtable:${scope}:${version}:${this.namespace}:${key}`;
+    if (mode !== 'reload') {
+      const cached = await this.store.get(entryKey);
+      if (cached !== undefined) {
+        return JSON.parse(cached) as R;
+      }
+    }
+
+    const value = await load();
+    await this.store.set(entryKey, JSON.stringify(value), this.ttlMs);
+    return value;
+  }
+
+  /**
+   * Drop every cached read of a scope
+   */
+  async invalidate(scope: string): Promise<void> {
+    await this.store.set(`airtable:${scope}:version`, newVersion());
+  }
+
+  private async version(scope: string): Promise<string> {
+    const key = `airtable:${scope}:version`;
+    let version = await this.store.get(key);
+    if (version === undefined) {
+      version = newVersion();
+      await this.store.set(key, version);
+    }
+    return version;
+  }
+}
+
+/**
+ * Build a cache key from read options, ignoring settings that don't change
+ * the response and the order of requested fields
+ */
+export function cacheKey(prefix: string, options: object): string {
+  const normalized: { [key: string]: unknown } = {};
+
+  for (const [key, value] of Object.entries(options).sort(([a], [b]) =>
+    a.localeCompare(b)
+  )) {
+    if (value === undefined || IGNORED_OPTIONS.has(key)) {
+      continue;
+    }
+    if (key === 'fields') {
+      normalized[key] = [...value].sort();
+    } else if (key === 'filterByFormula') {
+      normalized[key] = value.toString();
+    } else {
+      normalized[key] = value;
+    }
+  }
+
+  return `${prefix}:${JSON.stringify(normalized)}`;
+}
+
+function newVersion(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
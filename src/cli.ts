@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs';
+import { AirtableClient } from './client';
+import { generateTypes } from './codegen';
+import { BaseSchema } from './types';
+
+const USAGE = `Usage: airtable-typegen (--base <baseId> | --schema <file.json>) [options]
+
+Options:
+  --base <baseId>     Fetch the schema through the Metadata API
+  --schema <file>     Read a schema saved from base.getSchema()
+  --out <file>        Write the types to a file instead of stdout
+  --name <name>       Name of the table map interface (default: Tables)
+  --import <module>   Module to import SDK types from (default: @dlax/airtable-sdk)
+
+The API key is read from the AIRTABLE_API_KEY environment variable.`;
+
+function parseArgs(argv: string[]): { [option: string]: string } {
+  const args: { [option: string]: string } = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help' || arg === '-h') {
+      args.help = 'true';
+    } else if (arg.startsWith('--') && i + 1 < argv.length) {
+      args[arg.slice(2)] = argv[++i];
+    } else {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+
+  return args;
+}
+
+async function loadSchema(args: {
+  [option: string]: string;
+}): Promise<BaseSchema> {
+  if (args.schema) {
+    return JSON.parse(await fs.readFile(args.schema, 'utf8')) as BaseSchema;
+  }
+
+  const apiKey = process.env.AIRTABLE_API_KEY;
+  if (!apiKey) {
+    throw new Error('AIRTABLE_API_KEY must be set to fetch a schema');
+  }
+  return new AirtableClient({ apiKey }).base(args.base).getSchema();
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.help || (!args.base && !args.schema)) {
+    console.log(USAGE);
+    process.exitCode = args.help ? 0 : 1;
+    return;
+  }
+
+  const output = generateTypes(await loadSchema(args), {
+    tableMapName: args.name,
+    importFrom: args.import,
+  });
+
+  if (args.out) {
+    await fs.writeFile(args.out, output);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -1,26 +1,151 @@
 import { AirtableBase } from './base';
-import { AirtableConfig } from './types';
+import { ResponseCache } from './cache';
+import { toCredentials } from './credentials';
+import { AirtableError } from './errors';
+import {
+  AirtableEventListener,
+  AirtableEvents,
+  logEvent,
+  redactLogger,
+} from './events';
+import { HttpClient } from './http';
+import { RateLimiter } from './rate-limiter';
+import {
+  AirtableConfig,
+  AirtableEventMap,
+  BaseInfo,
+  Credentials,
+  ListBasesResponse,
+  RateLimitOptions,
+  RequestOptions,
+  TableMap,
+  TableOptions,
+} from './types';
 
 export class AirtableClient {
-  private readonly apiKey: string;
+  private readonly apiKey?: string;
+  private readonly credentials: string | Credentials;
   private readonly baseUrl: string;
+  private readonly options: TableOptions;
+  private readonly rateLimit: RateLimitOptions | false;
+  private readonly rateLimiters = new Map<string, RateLimiter>();
+  private readonly http: HttpClient;
+  private readonly events = new AirtableEvents();
 
   constructor(config: AirtableConfig) {
+    if (!config.apiKey && !config.credentials) {
+      throw new AirtableError(
+        'An apiKey or credentials provider is required',
+        undefined,
+        'MISSING_CREDENTIALS'
+      );
+    }
     this.apiKey = config.apiKey;
+    // A static key is kept as a string so it can be redacted
+    this.credentials = config.credentials
+      ? toCredentials(config.credentials)
+      : config.apiKey!;
     this.baseUrl = config.baseUrl || 'https://api.airtable.com/v0';
+    const logger = config.logger
+      ? redactLogger(config.logger, this.apiKey ? [this.apiKey] : [])
+      : undefined;
+    if (logger) {
+      this.events.on('*', event => logEvent(logger, event));
+    }
+    this.options = {
+      retry: config.retry,
+      fetch: config.fetch,
+      middleware: config.middleware,
+      timeoutMs: config.timeoutMs,
+      contentUrl: config.contentUrl,
+      cache: config.cache
+        ? new ResponseCache(
+            config.cache,
+            config.credentials ? undefined : config.apiKey
+          )
+        : undefined,
+      events: this.events,
+      logger,
+      tracer: config.tracer,
+    };
+    this.rateLimit = config.rateLimit ?? {};
+    this.http = new HttpClient(this.credentials, this.options);
+  }
+
+  /**
+   * Listen for request lifecycle events of every base and table of this
+   * client, or `'*'` for all events. Returns a function that removes the
+   * listener.
+   */
+  on<K extends keyof AirtableEventMap>(
+    type: K,
+    listener: AirtableEventListener<K>
+  ): () => void {
+    return this.events.on(type, listener);
+  }
+
+  /**
+   * Remove a listener added with `on`
+   */
+  off<K extends keyof AirtableEventMap>(
+    type: K,
+    listener: AirtableEventListener<K>
+  ): void {
+    this.events.off(type, listener);
   }
 
   /**
    * Get a base instance
    */
-  base(baseId: string): AirtableBase {
-    return new AirtableBase(baseId, this.apiKey, this.baseUrl);
+  base<S extends TableMap<S> = object>(baseId: string): AirtableBase<S> {
+    return new AirtableBase<S>(baseId, this.credentials, this.baseUrl, {
+      ...this.options,
+      rateLimiter: this.getRateLimiter(baseId),
+    });
+  }
+
+  /**
+   * List all bases the API key can access
+   */
+  async listBases(options: RequestOptions = {}): Promise<BaseInfo[]> {
+    const bases: BaseInfo[] = [];
+    let offset: string | undefined;
+
+    do {
+      const query = offset ? `?offset=${encodeURIComponent(offset)}` : '';
+      const response = await this.http.request<ListBasesResponse>(
+        'GET',
+        `${this.baseUrl}/meta/bases${query}`,
+        undefined,
+        options
+      );
+      bases.push(...response.bases);
+      offset = response.offset;
+    } while (offset);
+
+    return bases;
+  }
+
+  /**
+   * Get the rate limiter shared by all tables of a base
+   */
+  getRateLimiter(baseId: string): RateLimiter | undefined {
+    if (this.rateLimit === false) {
+      return undefined;
+    }
+
+    let limiter = this.rateLimiters.get(baseId);
+    if (!limiter) {
+      limiter = new RateLimiter(this.rateLimit);
+      this.rateLimiters.set(baseId, limiter);
+    }
+    return limiter;
   }
 
   /**
-   * Get API key (for internal use)
+   * Get API key (for internal use), undefined when using `credentials`
    */
-  getApiKey(): string {
+  getApiKey(): string | undefined {
     return this.apiKey;
   }
 
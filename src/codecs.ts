@@ -0,0 +1,267 @@
+import {
+  Attachment,
+  AttachmentInput,
+  Barcode,
+  Button,
+  Collaborator,
+  Duration,
+  FieldCodec,
+  FieldCodecs,
+  FieldSchema,
+  TableSchema,
+} from './types';
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidDate = (value: unknown): boolean =>
+  (value instanceof Date || typeof value === 'string') &&
+  !Number.isNaN(new Date(value).getTime());
+
+/**
+ * Pass values through unchanged
+ */
+export function identity<V = unknown>(
+  validate?: (value: unknown) => string | undefined
+): FieldCodec<V, V> {
+  return { decode: value => value, encode: value => value, validate };
+}
+
+/**
+ * Wrap a codec for a computed field that cannot be written
+ */
+export function readonly<V, R>(
+  codec: FieldCodec<V, R> = identity() as FieldCodec<V, R>
+): FieldCodec<V, R> {
+  return {
+    decode: value => codec.decode(value),
+    encode: value => codec.encode(value),
+    validate: () => 'is computed and cannot be written',
+  };
+}
+
+export function text(): FieldCodec<string, string> {
+  return identity(value =>
+    typeof value === 'string' ? undefined : 'expects a string'
+  );
+}
+
+export function number(): FieldCodec<number, number> {
+  return identity(value =>
+    typeof value === 'number' && Number.isFinite(value)
+      ? undefined
+      : 'expects a finite number'
+  );
+}
+
+export function checkbox(): FieldCodec<boolean, boolean> {
+  return identity(value =>
+    typeof value === 'boolean' ? undefined : 'expects a boolean'
+  );
+}
+
+export function singleSelect(): FieldCodec<string, string> {
+  return text();
+}
+
+export function multipleSelects(): FieldCodec<string[], string[]> {
+  return identity(value =>
+    Array.isArray(value) && value.every(item => typeof item === 'string')
+      ? undefined
+      : 'expects an array of strings'
+  );
+}
+
+export function recordLinks(): FieldCodec<string[], string[]> {
+  return multipleSelects();
+}
+
+/**
+ * Date-only field: `YYYY-MM-DD` strings as `Date` at UTC midnight
+ */
+export function date(): FieldCodec<Date, string> {
+  return {
+    decode: value => new Date(`${value.slice(0, 10)}T00:00:00.000Z`),
+    encode: value => new Date(value).toISOString().slice(0, 10),
+    validate: value =>
+      isValidDate(value) ? undefined : 'expects a Date or ISO date string',
+  };
+}
+
+/**
+ * Date and time field: ISO 8601 strings as `Date`
+ */
+export function dateTime(): FieldCodec<Date, string> {
+  return {
+    decode: value => new Date(value),
+    encode: value => new Date(value).toISOString(),
+    validate: value =>
+      isValidDate(value) ? undefined : 'expects a Date or ISO date string',
+  };
+}
+
+/**
+ * Duration field: a number of seconds as hours, minutes and seconds
+ */
+export function duration(): FieldCodec<Duration, number> {
+  return {
+    decode: value => {
+      const totalMs = Math.round(value * 1000);
+      return {
+        hours: Math.floor(totalMs / 3600000),
+        minutes: Math.floor((totalMs % 3600000) / 60000),
+        seconds: Math.floor((totalMs % 60000) / 1000),
+        milliseconds: totalMs % 1000,
+      };
+    },
+    encode: value =>
+      (value.hours || 0) * 3600 +
+      (value.minutes || 0) * 60 +
+      (value.seconds || 0) +
+      (value.milliseconds || 0) / 1000,
+    validate: value =>
+      isObject(value) &&
+      ['hours', 'minutes', 'seconds', 'milliseconds'].every(
+        key =>
+          value[key] === undefined ||
+          (typeof value[key] === 'number' && (value[key] as number) >= 0)
+      )
+        ? undefined
+        : 'expects { hours, minutes, seconds, milliseconds } with non-negative numbers',
+  };
+}
+
+export function attachments(): FieldCodec<AttachmentInput[], unknown[]> {
+  return {
+    decode: value => value as Attachment[],
+    // Existing attachments are kept by ID; new ones are uploaded from a URL
+    encode: value =>
+      value.map(item =>
+        'id' in item && item.id
+          ? { id: item.id }
+          : {
+              url: (item as { url: string }).url,
+              filename: (item as { filename?: string }).filename,
+            }
+      ),
+    validate: value =>
+      Array.isArray(value) &&
+      value.every(
+        item =>
+          isObject(item) &&
+          (typeof item.id === 'string' || typeof item.url === 'string')
+      )
+        ? undefined
+        : 'expects an array of attachments with an id or url',
+  };
+}
+
+export function collaborator(): FieldCodec<Collaborator, unknown> {
+  return {
+    decode: value => value as Collaborator,
+    encode: value => (value.id ? { id: value.id } : { email: value.email }),
+    validate: value =>
+      isObject(value) &&
+      (typeof value.id === 'string' || typeof value.email === 'string')
+        ? undefined
+        : 'expects a collaborator with an id or email',
+  };
+}
+
+export function collaborators(): FieldCodec<Collaborator[], unknown[]> {
+  const single = collaborator();
+  return {
+    decode: value => value.map(item => single.decode(item)),
+    encode: value => value.map(item => single.encode(item)),
+    validate: value =>
+      Array.isArray(value) && value.every(item => !single.validate!(item))
+        ? undefined
+        : 'expects an array of collaborators with an id or email',
+  };
+}
+
+export function barcode(): FieldCodec<Barcode, Barcode> {
+  return identity(value =>
+    isObject(value) && typeof value.text === 'string'
+      ? undefined
+      : 'expects a barcode with a text value'
+  );
+}
+
+export function button(): FieldCodec<Button, Button> {
+  return readonly(identity<Button>());
+}
+
+/**
+ * Pick the codec matching a field definition from the Metadata API
+ */
+export function codecForField(field: FieldSchema): FieldCodec {
+  switch (field.type) {
+    case 'singleLineText':
+    case 'email':
+    case 'url':
+    case 'multilineText':
+    case 'richText':
+    case 'phoneNumber':
+      return text();
+    case 'number':
+    case 'percent':
+    case 'currency':
+    case 'rating':
+      return number();
+    case 'checkbox':
+      return checkbox();
+    case 'singleSelect':
+      return singleSelect();
+    case 'multipleSelects':
+      return multipleSelects();
+    case 'multipleRecordLinks':
+      return recordLinks();
+    case 'date':
+      return date();
+    case 'dateTime':
+      return dateTime();
+    case 'duration':
+      return duration();
+    case 'multipleAttachments':
+      return attachments();
+    case 'singleCollaborator':
+      return collaborator();
+    case 'multipleCollaborators':
+      return collaborators();
+    case 'barcode':
+      return barcode();
+    case 'button':
+      return button();
+    case 'createdTime':
+    case 'lastModifiedTime':
+      return readonly(dateTime());
+    case 'createdBy':
+    case 'lastModifiedBy':
+      return readonly(collaborator());
+    case 'formula':
+    case 'rollup':
+      return readonly(
+        field.options?.result ? codecForField(field.options.result) : undefined
+      );
+    case 'autoNumber':
+    case 'count':
+    case 'multipleLookupValues':
+    case 'aiText':
+    case 'externalSyncSource':
+      return readonly();
+    default:
+      return identity();
+  }
+}
+
+/**
+ * Build codecs for every field of a table schema
+ */
+export function codecsFromSchema(table: TableSchema): FieldCodecs {
+  const codecs: FieldCodecs = {};
+  for (const field of table.fields) {
+    codecs[field.name] = codecForField(field);
+  }
+  return codecs;
+}
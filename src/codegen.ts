@@ -0,0 +1,213 @@
+import { BaseSchema, FieldSchema, TableSchema } from './types';
+
+export interface GenerateTypesOptions {
+  /** Name of the interface mapping table names to record types (default: Tables) */
+  tableMapName?: string;
+  /** Module the SDK types are imported from (default: @dlax/airtable-sdk) */
+  importFrom?: string;
+}
+
+interface FieldTypeInfo {
+  type: string;
+  readonly: boolean;
+  imports: string[];
+}
+
+const COMPUTED_TYPES = new Set<string>([
+  'autoNumber',
+  'button',
+  'count',
+  'createdBy',
+  'createdTime',
+  'formula',
+  'lastModifiedBy',
+  'lastModifiedTime',
+  'multipleLookupValues',
+  'rollup',
+  'aiText',
+  'externalSyncSource',
+]);
+
+/**
+ * Generate TypeScript record types for every table of a base schema
+ */
+export function generateTypes(
+  schema: BaseSchema,
+  options: GenerateTypesOptions = {}
+): string {
+  const tableMapName = options.tableMapName || 'Tables';
+  const importFrom = options.importFrom || '@dlax/airtable-sdk';
+  const imports = new Set<string>();
+  const typeNames = new Set<string>([tableMapName]);
+  const declarations: string[] = [];
+  const mapEntries: string[] = [];
+
+  for (const table of schema.tables) {
+    const typeName = uniqueName(toTypeName(table.name), typeNames);
+    declarations.push(generateTable(table, typeName, imports));
+    mapEntries.push(`  ${propertyKey(table.name)}: ${typeName};`);
+  }
+
+  const lines = ['// Generated by airtable-typegen. Do not edit by hand.', ''];
+  if (imports.size > 0) {
+    lines.push(
+      `import { ${[...imports].sort().join(', ')} } from '${importFrom}';`,
+      ''
+    );
+  }
+  lines.push(...declarations);
+  lines.push(
+    '/**',
+    ` * Record types by table name, for use as \`client.base<${tableMapName}>(baseId)\``,
+    ' */',
+    `export interface ${tableMapName} {`,
+    ...mapEntries,
+    '}',
+    ''
+  );
+
+  return lines.join('\n');
+}
+
+function generateTable(
+  table: TableSchema,
+  typeName: string,
+  imports: Set<string>
+): string {
+  const lines: string[] = [];
+
+  lines.push('/**', ` * ${commentText(table.name)} (${table.id})`);
+  if (table.description) {
+    lines.push(` *`, ` * ${commentText(table.description)}`);
+  }
+  lines.push(' */', `export type ${typeName} = {`);
+
+  for (const field of table.fields) {
+    const info = fieldType(field);
+    info.imports.forEach(name => imports.add(name));
+
+    let type = info.type;
+    if (info.readonly) {
+      imports.add('ReadonlyField');
+      type = `ReadonlyField<${type}>`;
+    }
+
+    const comment = [field.description, field.type].filter(Boolean).join(' - ');
+    lines.push(`  /** ${commentText(comment)} */`);
+    lines.push(`  ${propertyKey(field.name)}?: ${type};`);
+  }
+
+  lines.push('};', '');
+  return lines.join('\n');
+}
+
+/**
+ * Map a field definition to the TypeScript type of its cell value
+ */
+function fieldType(field: FieldSchema | null | undefined): FieldTypeInfo {
+  const info = (type: string, imports: string[] = []): FieldTypeInfo => ({
+    type,
+    readonly: !!field && COMPUTED_TYPES.has(field.type),
+    imports,
+  });
+
+  if (!field) {
+    return info('unknown');
+  }
+
+  switch (field.type) {
+    case 'singleLineText':
+    case 'email':
+    case 'url':
+    case 'multilineText':
+    case 'richText':
+    case 'phoneNumber':
+    case 'date':
+    case 'dateTime':
+    case 'createdTime':
+    case 'lastModifiedTime':
+    case 'externalSyncSource':
+      return info('string');
+    case 'number':
+    case 'percent':
+    case 'currency':
+    case 'duration':
+    case 'rating':
+    case 'autoNumber':
+    case 'count':
+      return info('number');
+    case 'checkbox':
+      return info('boolean');
+    case 'singleSelect':
+      return info(choiceUnion(field.options.choices));
+    case 'multipleSelects':
+      return info(`Array<${choiceUnion(field.options.choices)}>`);
+    case 'singleCollaborator':
+    case 'createdBy':
+    case 'lastModifiedBy':
+      return info('Collaborator', ['Collaborator']);
+    case 'multipleCollaborators':
+      return info('Collaborator[]', ['Collaborator']);
+    case 'multipleRecordLinks':
+      return info('string[]');
+    case 'multipleAttachments':
+      return info('Attachment[]', ['Attachment']);
+    case 'barcode':
+      return info('Barcode', ['Barcode']);
+    case 'button':
+      return info('Button', ['Button']);
+    case 'aiText':
+      return info('AiText', ['AiText']);
+    case 'formula':
+    case 'rollup': {
+      const result = fieldType(field.options?.result);
+      return info(result.type, result.imports);
+    }
+    case 'multipleLookupValues': {
+      const result = fieldType(field.options?.result);
+      return info(`Array<${result.type}>`, result.imports);
+    }
+    default:
+      return info('unknown');
+  }
+}
+
+function choiceUnion(choices: Array<{ name: string }> = []): string {
+  if (choices.length === 0) {
+    return 'string';
+  }
+  return choices.map(choice => quote(choice.name)).join(' | ');
+}
+
+function commentText(text: string): string {
+  return text.replace(/\*\//g, '*\\/').replace(/\s*\n\s*/g, ' ');
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : quote(name);
+}
+
+function toTypeName(name: string): string {
+  const words = name.match(/[A-Za-z0-9]+/g) || [];
+  const typeName = words
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+
+  if (!typeName) {
+    return 'Table';
+  }
+  return /^[0-9]/.test(typeName) ? `Table${typeName}` : typeName;
+}
+
+function uniqueName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  for (let i = 2; taken.has(candidate); i++) {
+    candidate = `${name}${i}`;
+  }
+  taken.add(candidate);
+  return candidate;
+}
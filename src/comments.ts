@@ -0,0 +1,132 @@
+import { HttpClient } from './http';
+import {
+  Comment,
+  CreateCommentInput,
+  ListCommentsOptions,
+  ListCommentsResponse,
+  RequestOptions,
+} from './types';
+
+/**
+ * Comments on a record, available as `table.comments(recordId)`. Iterating
+ * with `for await` yields every comment, fetching pages as needed.
+ */
+export class RecordComments implements AsyncIterable<Comment> {
+  constructor(
+    private readonly endpoint: string,
+    private readonly http: HttpClient
+  ) {}
+
+  /**
+   * List comments (single page), newest first
+   */
+  async list(options: ListCommentsOptions = {}): Promise<ListCommentsResponse> {
+    const params = new URLSearchParams();
+    if (options.pageSize) {
+      params.append('pageSize', options.pageSize.toString());
+    }
+    if (options.offset) {
+      params.append('offset', options.offset);
+    }
+
+    const query = params.toString();
+    return this.http.request<ListCommentsResponse>(
+      'GET',
+      query ? `${this.endpoint}?${query}` : this.endpoint,
+      undefined,
+      options
+    );
+  }
+
+  /**
+   * Iterate over comments, fetching pages as needed
+   */
+  async *iterate(
+    options: ListCommentsOptions = {}
+  ): AsyncIterableIterator<Comment> {
+    let offset = options.offset;
+
+    do {
+      const response = await this.list({ ...options, offset });
+      yield* response.comments;
+      offset = response.offset;
+    } while (offset);
+  }
+
+  /**
+   * Get all comments
+   */
+  async all(options: ListCommentsOptions = {}): Promise<Comment[]> {
+    const comments: Comment[] = [];
+    for await (const comment of this.iterate(options)) {
+      comments.push(comment);
+    }
+    return comments;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<Comment> {
+    return this.iterate();
+  }
+
+  /**
+   * Add a comment. Use `mention()` to mention users in the text.
+   */
+  async create(
+    comment: string | CreateCommentInput,
+    options: RequestOptions = {}
+  ): Promise<Comment> {
+    return this.http.request<Comment>(
+      'POST',
+      this.endpoint,
+      typeof comment === 'string' ? { text: comment } : comment,
+      options
+    );
+  }
+
+  /**
+   * Change the text of a comment
+   */
+  async update(
+    commentId: string,
+    text: string,
+    options: RequestOptions = {}
+  ): Promise<Comment> {
+    return this.http.request<Comment>(
+      'PATCH',
+      `${this.endpoint}/${commentId}`,
+      { text },
+      options
+    );
+  }
+
+  /**
+   * Delete a comment
+   */
+  async delete(
+    commentId: string,
+    options: RequestOptions = {}
+  ): Promise<{ id: string; deleted: boolean }> {
+    return this.http.request<{ id: string; deleted: boolean }>(
+      'DELETE',
+      `${this.endpoint}/${commentId}`,
+      undefined,
+      options
+    );
+  }
+}
+
+/**
+ * Mention a user or group in comment text
+ */
+export function mention(userOrGroupId: string): string {
+  return `@[${userOrGroupId}]`;
+}
+
+/**
+ * Get the IDs mentioned in comment text, in order of appearance
+ */
+export function extractMentions(text: string): string[] {
+  return [...text.matchAll(/@\[((?:usr|ugp)[A-Za-z0-9]+)\]/g)].map(
+    match => match[1]
+  );
+}
@@ -0,0 +1,147 @@
+import { AirtableError, AuthenticationError } from './errors';
+import {
+  CredentialProvider,
+  Credentials,
+  FetchFunction,
+  OAuthCredentialsOptions,
+  OAuthTokens,
+} from './types';
+
+const DEFAULT_TOKEN_URL = 'https://airtable.com/oauth2/v1/token';
+const DEFAULT_REFRESH_MARGIN_MS = 60000;
+
+/**
+ * Body of a token endpoint response, on success or failure
+ */
+interface TokenResponse {
+  access_token?: unknown;
+  refresh_token?: unknown;
+  expires_in?: unknown;
+  error?: unknown;
+  error_description?: unknown;
+}
+
+/**
+ * OAuth access tokens, refreshed with the refresh token shortly before they
+ * expire or when Airtable rejects them. Concurrent requests share a single
+ * refresh.
+ */
+export class OAuthCredentials implements Credentials {
+  private tokens?: OAuthTokens;
+  private refreshToken: string;
+  private refreshing?: Promise<string>;
+  private readonly fetchFn: FetchFunction;
+
+  constructor(private readonly options: OAuthCredentialsOptions) {
+    this.refreshToken = options.refreshToken;
+    if (options.accessToken) {
+      this.tokens = {
+        accessToken: options.accessToken,
+        refreshToken: options.refreshToken,
+        expiresAt: options.expiresAt,
+      };
+    }
+    this.fetchFn = options.fetch || ((input, init) => fetch(input, init));
+  }
+
+  async getToken(): Promise<string> {
+    const margin = this.options.refreshMarginMs ?? DEFAULT_REFRESH_MARGIN_MS;
+    const tokens = this.tokens;
+    if (
+      tokens &&
+      (tokens.expiresAt === undefined || tokens.expiresAt - margin > Date.now())
+    ) {
+      return tokens.accessToken;
+    }
+    return this.refresh();
+  }
+
+  /**
+   * Get a new access token. A token that was already replaced is not
+   * refreshed again.
+   */
+  async refresh(token?: string): Promise<string> {
+    if (token && this.tokens && this.tokens.accessToken !== token) {
+      return this.tokens.accessToken;
+    }
+    if (!this.refreshing) {
+      this.refreshing = this.requestTokens().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async requestTokens(): Promise<string> {
+    const { clientId, clientSecret } = this.options;
+    const body = new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: this.refreshToken,
+    });
+    const headers: { [name: string]: string } = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    };
+    if (clientSecret) {
+      headers.Authorization = `Basic ${Buffer.from(
+        `${clientId}:${clientSecret}`
+      ).toString('base64')}`;
+    } else {
+      body.set('client_id', clientId);
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetchFn(
+        this.options.tokenUrl || DEFAULT_TOKEN_URL,
+        { method: 'POST', headers, body: body.toString() }
+      );
+    } catch (error) {
+      throw new AirtableError(
+        `Network error: ${error instanceof Error ? error.message : error}`,
+        undefined,
+        'NETWORK_ERROR'
+      );
+    }
+
+    const data = (await response.json().catch(() => ({}))) as TokenResponse;
+    if (!response.ok || typeof data.access_token !== 'string') {
+      throw new AuthenticationError(
+        `Failed to refresh OAuth access token: ${
+          data.error_description || data.error || `HTTP ${response.status}`
+        }`,
+        typeof data.error === 'string' ? data.error : 'OAUTH_REFRESH_FAILED'
+      );
+    }
+
+    const tokens: OAuthTokens = {
+      accessToken: data.access_token,
+      refreshToken:
+        typeof data.refresh_token === 'string'
+          ? data.refresh_token
+          : this.refreshToken,
+      expiresAt:
+        typeof data.expires_in === 'number'
+          ? Date.now() + data.expires_in * 1000
+          : undefined,
+    };
+    this.tokens = tokens;
+    this.refreshToken = tokens.refreshToken;
+    await this.options.onRefresh?.(tokens);
+    return tokens.accessToken;
+  }
+}
+
+/**
+ * Turn an API key or credential provider into `Credentials`
+ */
+export function toCredentials(
+  source: string | CredentialProvider
+): Credentials {
+  if (typeof source === 'string') {
+    return { getToken: () => source };
+  }
+  if (typeof source === 'function') {
+    return { getToken: source };
+  }
+  return source;
+}
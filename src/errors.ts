@@ -1,4 +1,29 @@
-export class AirtableError extends Error {
+/**
+ * The request an error came from, with credentials redacted from the URL
+ */
+export interface RequestContext {
+  method?: string;
+  url?: string;
+  /** Table name or ID from the URL */
+  table?: string;
+  /** Record IDs from the URL or request body */
+  recordIds?: string[];
+}
+
+export class AirtableError extends Error implements RequestContext {
+  /** Number of attempts made before the error was thrown */
+  attempts?: number;
+  /** Delay requested by the server's Retry-After header */
+  retryAfterMs?: number;
+  /** Whether the request may succeed if sent again */
+  isRetryable: boolean;
+  method?: string;
+  url?: string;
+  table?: string;
+  recordIds?: string[];
+  /** Parsed response body of a failed API request */
+  responseBody?: unknown;
+
   constructor(
     message: string,
     public statusCode?: number,
@@ -6,10 +31,72 @@ export class AirtableError extends Error {
   ) {
     super(message);
     this.name = 'AirtableError';
+    this.isRetryable =
+      statusCode === 429 ||
+      (statusCode !== undefined && statusCode >= 500) ||
+      errorType === 'NETWORK_ERROR';
     Object.setPrototypeOf(this, AirtableError.prototype);
   }
 }
 
+export class AuthenticationError extends AirtableError {
+  constructor(message: string, errorType?: string) {
+    super(message, 401, errorType);
+    this.name = 'AuthenticationError';
+    Object.setPrototypeOf(this, AuthenticationError.prototype);
+  }
+}
+
+export class PermissionError extends AirtableError {
+  constructor(message: string, errorType?: string) {
+    super(message, 403, errorType);
+    this.name = 'PermissionError';
+    Object.setPrototypeOf(this, PermissionError.prototype);
+  }
+}
+
+export type NotFoundResource = 'table' | 'record' | 'field' | 'model';
+
+export class NotFoundError extends AirtableError {
+  constructor(
+    message: string,
+    errorType?: string,
+    public resource: NotFoundResource = 'model'
+  ) {
+    super(message, 404, errorType);
+    this.name = 'NotFoundError';
+    Object.setPrototypeOf(this, NotFoundError.prototype);
+  }
+}
+
+export class ValidationError extends AirtableError {
+  constructor(
+    message: string,
+    errorType?: string,
+    public field?: string
+  ) {
+    super(message, 422, errorType);
+    this.name = 'ValidationError';
+    Object.setPrototypeOf(this, ValidationError.prototype);
+  }
+}
+
+export class PayloadTooLargeError extends AirtableError {
+  constructor(message: string, errorType?: string) {
+    super(message, 413, errorType);
+    this.name = 'PayloadTooLargeError';
+    Object.setPrototypeOf(this, PayloadTooLargeError.prototype);
+  }
+}
+
+export class ServerError extends AirtableError {
+  constructor(message: string, statusCode: number, errorType?: string) {
+    super(message, statusCode, errorType);
+    this.name = 'ServerError';
+    Object.setPrototypeOf(this, ServerError.prototype);
+  }
+}
+
 export class RateLimitError extends AirtableError {
   constructor(message: string) {
     super(message, 429, 'RATE_LIMIT');
@@ -17,3 +104,98 @@ export class RateLimitError extends AirtableError {
     Object.setPrototypeOf(this, RateLimitError.prototype);
   }
 }
+
+export class FieldValidationError extends AirtableError {
+  constructor(
+    message: string,
+    public field: string,
+    public value: unknown,
+    public recordIndex?: number
+  ) {
+    super(message, undefined, 'INVALID_FIELD_VALUE');
+    this.name = 'FieldValidationError';
+    Object.setPrototypeOf(this, FieldValidationError.prototype);
+  }
+}
+
+export class TimeoutError extends AirtableError {
+  constructor(
+    message: string,
+    public timeoutMs: number
+  ) {
+    super(message, undefined, 'TIMEOUT');
+    this.name = 'TimeoutError';
+    Object.setPrototypeOf(this, TimeoutError.prototype);
+  }
+}
+
+export class AbortError extends AirtableError {
+  constructor(message = 'The operation was aborted') {
+    super(message, undefined, 'ABORTED');
+    this.name = 'AbortError';
+    Object.setPrototypeOf(this, AbortError.prototype);
+  }
+}
+
+/**
+ * Build the error for a failed API response, attaching the request context
+ * and the raw response body
+ */
+export function createApiError(
+  status: number,
+  body: any,
+  context: RequestContext = {}
+): AirtableError {
+  // Some endpoints return the error type as a bare string
+  const type: string | undefined =
+    typeof body?.error === 'string' ? body.error : body?.error?.type;
+  const message: string =
+    body?.error?.message || `Request failed with status ${status}`;
+
+  let error: AirtableError;
+  if (status === 401) {
+    error = new AuthenticationError(message, type);
+  } else if (status === 403) {
+    error = new PermissionError(message, type);
+  } else if (status === 404) {
+    error = new NotFoundError(message, type, notFoundResource(type, context));
+  } else if (status === 413) {
+    error = new PayloadTooLargeError(message, type);
+  } else if (status === 422) {
+    error = new ValidationError(message, type, parseFieldName(message));
+  } else if (status === 429) {
+    error = new RateLimitError(body?.error?.message || 'Rate limit exceeded');
+  } else if (status >= 500) {
+    error = new ServerError(message, status, type);
+  } else {
+    error = new AirtableError(message, status, type);
+  }
+
+  Object.assign(error, context);
+  error.responseBody = body;
+  return error;
+}
+
+function notFoundResource(
+  type: string | undefined,
+  context: RequestContext
+): NotFoundResource {
+  if (type === 'TABLE_NOT_FOUND') {
+    return 'table';
+  }
+  if (type === 'FIELD_NOT_FOUND') {
+    return 'field';
+  }
+  if (type === 'NOT_FOUND' && context.recordIds?.length) {
+    return 'record';
+  }
+  return 'model';
+}
+
+/**
+ * Pull the field name out of messages such as `Unknown field name: "Foo"` or
+ * `Field "Foo" cannot accept the provided value`
+ */
+function parseFieldName(message: string): string | undefined {
+  return /\b(?:field name|field|column):? "([^"]+)"/i.exec(message)?.[1];
+}
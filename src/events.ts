@@ -0,0 +1,142 @@
+import { AirtableEvent, AirtableEventMap, Logger } from './types';
+
+export type AirtableEventListener<K extends keyof AirtableEventMap> = (
+  event: AirtableEventMap[K]
+) => void;
+
+/** A listener of any event type, as kept by `AirtableEvents` */
+type StoredListener = AirtableEventListener<keyof AirtableEventMap>;
+
+/**
+ * Lifecycle events of a client, shared by its bases and tables. Subscribe
+ * with `client.on(type, listener)`.
+ */
+export class AirtableEvents {
+  private readonly listeners = new Map<
+    keyof AirtableEventMap,
+    Set<StoredListener>
+  >();
+
+  /**
+   * Listen for events of a type, or `'*'` for all. Returns a function that
+   * removes the listener.
+   */
+  on<K extends keyof AirtableEventMap>(
+    type: K,
+    listener: AirtableEventListener<K>
+  ): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener as StoredListener);
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * Remove a listener added with `on`
+   */
+  off<K extends keyof AirtableEventMap>(
+    type: K,
+    listener: AirtableEventListener<K>
+  ): void {
+    this.listeners.get(type)?.delete(listener as StoredListener);
+  }
+
+  emit(event: AirtableEvent): void {
+    for (const type of [event.type, '*'] as const) {
+      this.listeners.get(type)?.forEach(listener => {
+        try {
+          listener(event);
+        } catch {
+          // A failing listener must not break the request that emitted
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Wrap a logger so the given secrets never reach it
+ */
+export function redactLogger(logger: Logger, secrets: string[]): Logger {
+  const redact = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return secrets.reduce(
+        (text, secret) =>
+          secret ? text.split(secret).join('[REDACTED]') : text,
+        value
+      );
+    }
+    if (Array.isArray(value)) {
+      return value.map(redact);
+    }
+    if (value && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, redact(item)])
+      );
+    }
+    return value;
+  };
+
+  const level =
+    (name: keyof Logger) =>
+    (message: string, ...data: unknown[]) =>
+      logger[name](redact(message) as string, ...data.map(redact));
+
+  return {
+    debug: level('debug'),
+    info: level('info'),
+    warn: level('warn'),
+    error: level('error'),
+  };
+}
+
+/**
+ * Write an event to a logger: retries at info level, everything else at debug
+ */
+export function logEvent(logger: Logger, event: AirtableEvent): void {
+  switch (event.type) {
+    case 'request':
+      logger.debug(
+        `Sending ${event.method} ${event.url} (attempt ${event.attempt})`,
+        event
+      );
+      break;
+    case 'response':
+      logger.debug(
+        event.status === undefined
+          ? `${event.method} ${event.url} failed after ${event.durationMs}ms: ${event.error?.message}`
+          : `${event.method} ${event.url} returned ${event.status} in ${event.durationMs}ms`,
+        event
+      );
+      break;
+    case 'retry':
+      logger.info(
+        `Retrying ${event.method} ${event.url} in ${event.delayMs}ms after attempt ${event.attempt} failed: ${event.error.message}`,
+        event
+      );
+      break;
+    case 'rateLimitWait':
+      logger.debug(
+        `Waited ${event.waitMs}ms for the rate limiter before ${event.method} ${event.url}`,
+        event
+      );
+      break;
+    case 'page':
+      logger.debug(
+        `Fetched a page of ${event.records} records from ${event.table}`,
+        event
+      );
+      break;
+    case 'batchChunk':
+      logger.debug(
+        event.error
+          ? `Batch chunk of ${event.records} records in ${event.table} failed: ${event.error.message}`
+          : `Batch chunk of ${event.records} records in ${event.table} completed in ${event.durationMs}ms`,
+        event
+      );
+      break;
+  }
+}
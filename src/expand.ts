@@ -0,0 +1,130 @@
+import { AirtableError } from './errors';
+import { eq, or, recordId } from './formula';
+import {
+  ExpandFields,
+  FieldSet,
+  LinkedTable,
+  ReadOptions,
+  Record,
+} from './types';
+
+/** Linked records fetched per query, keeping the formula URL short */
+export const EXPAND_CHUNK_SIZE = 50;
+
+/** Default levels of nested expansion */
+export const DEFAULT_EXPAND_DEPTH = 3;
+
+/**
+ * Reject expansions nested deeper than `depth`, whose innermost links would
+ * be left as record IDs despite being typed as records
+ */
+export function checkExpandDepth(
+  expand: ExpandFields<FieldSet>,
+  depth: number
+): void {
+  const levels = (fields: ExpandFields<FieldSet>): number => {
+    let max = 0;
+    for (const target of Object.values(fields)) {
+      if (target) {
+        const nested =
+          'table' in target && target.expand ? levels(target.expand) : 0;
+        max = Math.max(max, 1 + nested);
+      }
+    }
+    return max;
+  };
+
+  const needed = levels(expand);
+  if (needed > depth) {
+    throw new AirtableError(
+      `The expand option is nested ${needed} levels deep, but expandDepth is ${depth}`,
+      undefined,
+      'INVALID_EXPAND_DEPTH'
+    );
+  }
+}
+
+/**
+ * Replace the record IDs in link fields with the linked records, fetching
+ * each linked table in bulk. Linked records that no longer exist are dropped.
+ */
+export async function expandRecords<T extends FieldSet>(
+  records: Record<T>[],
+  expand: ExpandFields<T>,
+  depth: number,
+  options: ReadOptions
+): Promise<Record<T>[]> {
+  if (depth <= 0) {
+    return records;
+  }
+
+  const expanded = records.map(record => ({
+    ...record,
+    fields: { ...record.fields } as FieldSet,
+  }));
+
+  for (const [field, target] of Object.entries(expand)) {
+    if (!target) {
+      continue;
+    }
+    const spec =
+      'table' in target ? target : { table: target as LinkedTable<FieldSet> };
+
+    const ids = new Set<string>();
+    for (const record of expanded) {
+      linkedIds(record.fields[field]).forEach(id => ids.add(id));
+    }
+
+    // Nested link fields are always fetched, so they can be expanded
+    const fields =
+      spec.fields && spec.expand
+        ? [...new Set([...spec.fields, ...Object.keys(spec.expand)])]
+        : spec.fields;
+    let linked = await fetchLinked(spec.table, [...ids], fields, options);
+    if (spec.expand) {
+      linked = await expandRecords(linked, spec.expand, depth - 1, options);
+    }
+    const byId = new Map(linked.map(record => [record.id, record]));
+
+    for (const record of expanded) {
+      const value = record.fields[field];
+      if (Array.isArray(value)) {
+        record.fields[field] = linkedIds(value)
+          .filter(id => byId.has(id))
+          .map(id => byId.get(id));
+      }
+    }
+  }
+
+  return expanded as Record<T>[];
+}
+
+async function fetchLinked(
+  table: LinkedTable<FieldSet>,
+  ids: string[],
+  fields: string[] | undefined,
+  { signal, timeoutMs, cache }: ReadOptions
+): Promise<Record<FieldSet>[]> {
+  const records: Record<FieldSet>[] = [];
+
+  for (let i = 0; i < ids.length; i += EXPAND_CHUNK_SIZE) {
+    const chunk = ids.slice(i, i + EXPAND_CHUNK_SIZE);
+    records.push(
+      ...(await table.select({
+        filterByFormula: or(...chunk.map(id => eq(recordId(), id))),
+        fields,
+        signal,
+        timeoutMs,
+        cache,
+      }))
+    );
+  }
+
+  return records;
+}
+
+function linkedIds(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((id): id is string => typeof id === 'string')
+    : [];
+}
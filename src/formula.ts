@@ -0,0 +1,265 @@
+import { FieldSet } from './types';
+
+/**
+ * Field names of a record type that can be referenced in a formula
+ */
+export type FieldName<T extends FieldSet> = Extract<keyof T, string>;
+
+/**
+ * A compiled formula expression, usable as `filterByFormula`
+ */
+export class Formula<T extends FieldSet = FieldSet> {
+  /** Ties the expression to the fields of a table at the type level */
+  declare readonly fields?: T;
+
+  constructor(private readonly expression: string) {}
+
+  toString(): string {
+    return this.expression;
+  }
+}
+
+/**
+ * Value allowed as a formula argument. Strings are treated as literals,
+ * use `field()` to reference a field.
+ */
+export type FormulaValue<T extends FieldSet = FieldSet> =
+  Formula<T> | string | number | boolean | Date | null;
+
+/**
+ * Left-hand side of a comparison: a field name or an expression
+ */
+export type FormulaOperand<T extends FieldSet = FieldSet> =
+  FieldName<T> | Formula<T>;
+
+export type DateUnit =
+  | 'milliseconds'
+  | 'seconds'
+  | 'minutes'
+  | 'hours'
+  | 'days'
+  | 'weeks'
+  | 'months'
+  | 'quarters'
+  | 'years';
+
+/**
+ * Escape a string as a double-quoted formula literal
+ */
+export function escapeString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+  return `"${escaped}"`;
+}
+
+/**
+ * Reference a field by name
+ */
+export function field<T extends FieldSet = FieldSet>(
+  name: FieldName<T>
+): Formula<T> {
+  return new Formula(`{${name.replace(/[\\}]/g, '\\$&')}}`);
+}
+
+/**
+ * Convert a JavaScript value into a formula literal
+ */
+export function value<T extends FieldSet = FieldSet>(
+  input: FormulaValue<T>
+): Formula<T> {
+  if (input instanceof Formula) {
+    return input;
+  }
+  if (input === null) {
+    return new Formula('BLANK()');
+  }
+  if (input instanceof Date) {
+    if (Number.isNaN(input.getTime())) {
+      throw new TypeError('Cannot use an invalid Date in a formula');
+    }
+    return new Formula(`DATETIME_PARSE(${escapeString(input.toISOString())})`);
+  }
+
+  switch (typeof input) {
+    case 'string':
+      return new Formula(escapeString(input));
+    case 'boolean':
+      return new Formula(input ? 'TRUE()' : 'FALSE()');
+    default:
+      if (!Number.isFinite(input)) {
+        throw new TypeError(`Cannot use ${input} in a formula`);
+      }
+      return new Formula(String(input));
+  }
+}
+
+/**
+ * Insert an expression verbatim, without escaping
+ */
+export function raw<T extends FieldSet = FieldSet>(
+  expression: string
+): Formula<T> {
+  return new Formula(expression);
+}
+
+function operand<T extends FieldSet>(input: FormulaOperand<T>): Formula<T> {
+  return input instanceof Formula ? input : field<T>(input);
+}
+
+function call<T extends FieldSet>(
+  name: string,
+  args: Array<Formula<T>>
+): Formula<T> {
+  return new Formula(`${name}(${args.join(', ')})`);
+}
+
+function compare<T extends FieldSet>(
+  operator: string,
+  left: FormulaOperand<T>,
+  right: FormulaValue<T>
+): Formula<T> {
+  return new Formula(`${operand(left)} ${operator} ${value(right)}`);
+}
+
+export function and<T extends FieldSet = FieldSet>(
+  ...conditions: Array<Formula<T>>
+): Formula<T> {
+  return call('AND', conditions);
+}
+
+export function or<T extends FieldSet = FieldSet>(
+  ...conditions: Array<Formula<T>>
+): Formula<T> {
+  return call('OR', conditions);
+}
+
+export function not<T extends FieldSet = FieldSet>(
+  condition: Formula<T>
+): Formula<T> {
+  return call('NOT', [condition]);
+}
+
+export function eq<T extends FieldSet = FieldSet>(
+  left: FormulaOperand<T>,
+  right: FormulaValue<T>
+): Formula<T> {
+  return compare('=', left, right);
+}
+
+export function ne<T extends FieldSet = FieldSet>(
+  left: FormulaOperand<T>,
+  right: FormulaValue<T>
+): Formula<T> {
+  return compare('!=', left, right);
+}
+
+export function gt<T extends FieldSet = FieldSet>(
+  left: FormulaOperand<T>,
+  right: FormulaValue<T>
+): Formula<T> {
+  return compare('>', left, right);
+}
+
+export function gte<T extends FieldSet = FieldSet>(
+  left: FormulaOperand<T>,
+  right: FormulaValue<T>
+): Formula<T> {
+  return compare('>=', left, right);
+}
+
+export function lt<T extends FieldSet = FieldSet>(
+  left: FormulaOperand<T>,
+  right: FormulaValue<T>
+): Formula<T> {
+  return compare('<', left, right);
+}
+
+export function lte<T extends FieldSet = FieldSet>(
+  left: FormulaOperand<T>,
+  right: FormulaValue<T>
+): Formula<T> {
+  return compare('<=', left, right);
+}
+
+/**
+ * Position of `needle` in the field (1-based, 0 when missing, case-sensitive)
+ */
+export function find<T extends FieldSet = FieldSet>(
+  needle: FormulaValue<T>,
+  haystack: FormulaOperand<T>
+): Formula<T> {
+  return call('FIND', [value(needle), operand(haystack)]);
+}
+
+/**
+ * Position of `needle` in the field (blank when missing, case-insensitive)
+ */
+export function search<T extends FieldSet = FieldSet>(
+  needle: FormulaValue<T>,
+  haystack: FormulaOperand<T>
+): Formula<T> {
+  return call('SEARCH', [value(needle), operand(haystack)]);
+}
+
+export function isBefore<T extends FieldSet = FieldSet>(
+  date: FormulaOperand<T>,
+  other: FormulaValue<T>
+): Formula<T> {
+  return call('IS_BEFORE', [operand(date), value(other)]);
+}
+
+export function isAfter<T extends FieldSet = FieldSet>(
+  date: FormulaOperand<T>,
+  other: FormulaValue<T>
+): Formula<T> {
+  return call('IS_AFTER', [operand(date), value(other)]);
+}
+
+export function datetimeDiff<T extends FieldSet = FieldSet>(
+  date: FormulaOperand<T>,
+  other: FormulaValue<T>,
+  unit: DateUnit
+): Formula<T> {
+  return call('DATETIME_DIFF', [operand(date), value(other), value<T>(unit)]);
+}
+
+/**
+ * Check that a field is empty
+ */
+export function isBlank<T extends FieldSet = FieldSet>(
+  input: FormulaOperand<T>
+): Formula<T> {
+  return compare('=', input, null);
+}
+
+export function blank<T extends FieldSet = FieldSet>(): Formula<T> {
+  return new Formula('BLANK()');
+}
+
+export function recordId<T extends FieldSet = FieldSet>(): Formula<T> {
+  return new Formula('RECORD_ID()');
+}
+
+/**
+ * Last time any field, or one of the given fields, was modified
+ */
+export function lastModifiedTime<T extends FieldSet = FieldSet>(
+  ...fields: Array<FieldName<T>>
+): Formula<T> {
+  return call(
+    'LAST_MODIFIED_TIME',
+    fields.map(name => field<T>(name))
+  );
+}
+
+export function today<T extends FieldSet = FieldSet>(): Formula<T> {
+  return new Formula('TODAY()');
+}
+
+export function now<T extends FieldSet = FieldSet>(): Formula<T> {
+  return new Formula('NOW()');
+}
@@ -0,0 +1,448 @@
+import {
+  AbortError,
+  AirtableError,
+  RequestContext,
+  TimeoutError,
+  createApiError,
+} from './errors';
+import { toCredentials } from './credentials';
+import { AirtableEvents } from './events';
+import { composeMiddleware } from './middleware';
+import { RateLimiter } from './rate-limiter';
+import {
+  ResolvedRetryOptions,
+  getRetryDelay,
+  isRetryable,
+  parseRetryAfter,
+  resolveRetryOptions,
+} from './retry';
+import {
+  AirtableRequest,
+  Credentials,
+  FetchFunction,
+  RequestOptions,
+  Span,
+  SpanAttributes,
+  TableOptions,
+  Tracer,
+} from './types';
+
+/**
+ * Options for a single API call
+ */
+export interface HttpRequestOptions extends RequestOptions {
+  /** Retry like a GET even when sent with another method */
+  idempotent?: boolean;
+}
+
+/** OpenTelemetry's `SpanStatusCode.ERROR` */
+const SPAN_STATUS_ERROR = 2;
+
+type CallContext = RequestContext & { method: string; url: string };
+
+/**
+ * A logical API call, tracked across its attempts
+ */
+interface Call {
+  context: CallContext;
+  attempt: number;
+  span?: Span;
+  /** Token sent with the latest attempt */
+  token?: string;
+  /** Token from the credentials' refresh after a 401 */
+  refreshedToken?: string;
+}
+
+/**
+ * Sends authenticated requests through the middleware pipeline, applying
+ * rate limiting and the retry policy
+ */
+export class HttpClient {
+  private readonly retryOptions: ResolvedRetryOptions;
+  private readonly rateLimiter?: RateLimiter;
+  private readonly timeoutMs?: number;
+  private readonly fetchFn: FetchFunction;
+  private readonly events?: AirtableEvents;
+  private readonly tracer?: Tracer;
+  private readonly dispatch: (request: AirtableRequest) => Promise<Response>;
+  private readonly credentials: Credentials;
+  private readonly apiKey?: string;
+
+  constructor(credentials: string | Credentials, options: TableOptions = {}) {
+    this.credentials = toCredentials(credentials);
+    this.apiKey = typeof credentials === 'string' ? credentials : undefined;
+    this.retryOptions = resolveRetryOptions(options.retry);
+    this.rateLimiter = options.rateLimiter;
+    this.timeoutMs = options.timeoutMs;
+    this.fetchFn = options.fetch || ((input, init) => fetch(input, init));
+    this.dispatch = composeMiddleware(this.fetchFn, options.middleware);
+    this.events = options.events;
+    this.tracer = options.tracer;
+  }
+
+  /**
+   * Make HTTP request, retrying failures allowed by the retry policy
+   */
+  async request<R>(
+    method: string,
+    url: string,
+    body?: any,
+    options: HttpRequestOptions = {}
+  ): Promise<R> {
+    const context = this.describe(method, url, body);
+    const call: Call = { context, attempt: 1 };
+    if (!this.tracer) {
+      return this.retry<R>(method, url, body, options, call);
+    }
+
+    call.span = this.tracer.startSpan(`Airtable ${method}`, {
+      attributes: spanAttributes(context),
+    });
+    try {
+      return await this.retry<R>(method, url, body, options, call);
+    } catch (error) {
+      if (error instanceof Error) {
+        call.span.recordException(error);
+        call.span.setStatus({
+          code: SPAN_STATUS_ERROR,
+          message: error.message,
+        });
+      }
+      throw error;
+    } finally {
+      call.span.setAttribute('http.request.resend_count', call.attempt - 1);
+      call.span.end();
+    }
+  }
+
+  /**
+   * Fetch a URL outside the API, such as a signed attachment URL, without
+   * credentials, middleware or retries
+   */
+  async fetchExternal(url: string, signal?: AbortSignal): Promise<Response> {
+    try {
+      return await abortable(
+        this.fetchFn(url, { method: 'GET', signal }),
+        signal
+      );
+    } catch (error) {
+      if (error instanceof AirtableError) {
+        throw error;
+      }
+      throw new AirtableError(
+        `Network error: ${error instanceof Error ? error.message : error}`,
+        undefined,
+        'NETWORK_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Send a request until it succeeds or the retry policy gives up
+   */
+  private async retry<R>(
+    method: string,
+    url: string,
+    body: any,
+    options: HttpRequestOptions,
+    call: Call
+  ): Promise<R> {
+    for (; ; call.attempt++) {
+      try {
+        return await this.send<R>(method, url, body, options, call);
+      } catch (error) {
+        if (!(error instanceof AirtableError)) {
+          throw error;
+        }
+        if (error.method === undefined) {
+          Object.assign(error, call.context);
+        }
+        if (await this.refreshCredentials(error, options, call)) {
+          continue;
+        }
+        error.isRetryable = isRetryable(
+          error,
+          method,
+          this.retryOptions,
+          options.idempotent
+        );
+        if (
+          call.attempt >= this.retryOptions.maxAttempts ||
+          !error.isRetryable
+        ) {
+          error.attempts = call.attempt;
+          throw error;
+        }
+
+        const delayMs = getRetryDelay(error, call.attempt, this.retryOptions);
+        this.events?.emit({
+          type: 'retry',
+          ...eventInfo(call),
+          delayMs,
+          error,
+        });
+        await abortable(this.sleep(delayMs), options.signal);
+      }
+    }
+  }
+
+  /**
+   * After the first 401 of a call, ask the credentials for a new token.
+   * Returns true when the request should be sent again with it.
+   */
+  private async refreshCredentials(
+    error: AirtableError,
+    options: RequestOptions,
+    call: Call
+  ): Promise<boolean> {
+    if (
+      error.statusCode !== 401 ||
+      call.refreshedToken !== undefined ||
+      call.token === undefined ||
+      !this.credentials.refresh
+    ) {
+      return false;
+    }
+
+    const token = await abortable(
+      Promise.resolve(this.credentials.refresh(call.token)),
+      options.signal
+    );
+    if (!token) {
+      return false;
+    }
+
+    call.refreshedToken = token;
+    this.events?.emit({ type: 'retry', ...eventInfo(call), delayMs: 0, error });
+    return true;
+  }
+
+  /**
+   * Make a single HTTP request, enforcing the signal and timeout
+   */
+  private async send<R>(
+    method: string,
+    url: string,
+    body: any,
+    options: RequestOptions,
+    call: Call
+  ): Promise<R> {
+    const { signal } = options;
+    if (this.rateLimiter) {
+      const queuedAt = Date.now();
+      await abortable(this.rateLimiter.acquire(signal), signal);
+      const waitMs = Date.now() - queuedAt;
+      if (waitMs > 0) {
+        this.events?.emit({
+          type: 'rateLimitWait',
+          ...eventInfo(call),
+          waitMs,
+        });
+      }
+    } else if (signal?.aborted) {
+      throw new AbortError();
+    }
+
+    call.token =
+      call.refreshedToken ??
+      (await abortable(Promise.resolve(this.credentials.getToken()), signal));
+    const request: AirtableRequest = {
+      method,
+      url,
+      headers: {
+        Authorization: `Bearer ${call.token}`,
+        'Content-Type': 'application/json',
+      },
+    };
+
+    if (body) {
+      request.body = JSON.stringify(body);
+    }
+
+    // One controller per attempt, aborted by the caller's signal or the timeout
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(new AbortError());
+    signal?.addEventListener('abort', onAbort);
+
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const timer =
+      timeoutMs === undefined
+        ? undefined
+        : setTimeout(
+            () =>
+              controller.abort(
+                new TimeoutError(
+                  `Request timed out after ${timeoutMs}ms`,
+                  timeoutMs
+                )
+              ),
+            timeoutMs
+          );
+
+    request.signal = controller.signal;
+    try {
+      return await abortable(this.execute<R>(request, call), controller.signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Dispatch a request and parse the response, mapping failures to errors
+   */
+  private async execute<R>(request: AirtableRequest, call: Call): Promise<R> {
+    this.events?.emit({ type: 'request', ...eventInfo(call) });
+    const startedAt = Date.now();
+
+    let response: Response;
+    try {
+      response = await this.dispatch(request);
+    } catch (error) {
+      const failure =
+        error instanceof AirtableError
+          ? error
+          : new AirtableError(
+              `Network error: ${error instanceof Error ? error.message : error}`,
+              undefined,
+              'NETWORK_ERROR'
+            );
+      this.events?.emit({
+        type: 'response',
+        ...eventInfo(call),
+        durationMs: Date.now() - startedAt,
+        error: failure,
+      });
+      throw failure;
+    }
+
+    this.events?.emit({
+      type: 'response',
+      ...eventInfo(call),
+      status: response.status,
+      durationMs: Date.now() - startedAt,
+    });
+    call.span?.setAttribute('http.response.status_code', response.status);
+
+    if (!response.ok) {
+      const errorData: any = await response.json().catch(() => ({}));
+      const error = createApiError(response.status, errorData, call.context);
+      error.retryAfterMs = parseRetryAfter(
+        response.headers && response.headers.get('Retry-After')
+      );
+      throw error;
+    }
+
+    return response.json() as Promise<R>;
+  }
+
+  /**
+   * Describe a request for error reporting, keeping credentials out of the URL
+   */
+  private describe(method: string, url: string, body: any): CallContext {
+    let redacted = url.replace(
+      /([?&](?:api_key|access_token)=)[^&#]*/gi,
+      '$1[REDACTED]'
+    );
+    if (this.apiKey) {
+      redacted = redacted.split(this.apiKey).join('[REDACTED]');
+    }
+
+    const context: CallContext = { method, url: redacted };
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return context;
+    }
+
+    const segments = parsed.pathname
+      .split('/')
+      .filter(Boolean)
+      .map(segment => decodeURIComponent(segment));
+    const baseIndex = segments.findIndex(segment => /^app\w+$/.test(segment));
+    const tablesIndex = segments.indexOf('tables');
+    const recordIds = new Set<string>();
+
+    if (tablesIndex > baseIndex && tablesIndex + 1 < segments.length) {
+      // Metadata URLs: /meta/bases/{baseId}/tables/{tableId}/...
+      context.table = segments[tablesIndex + 1];
+    } else if (
+      baseIndex >= 0 &&
+      segments[baseIndex - 1] !== 'bases' &&
+      baseIndex + 1 < segments.length
+    ) {
+      // Content URLs put the record right after the base, with no table
+      const isUpload = segments[segments.length - 1] === 'uploadAttachment';
+      const rest = segments.slice(baseIndex + (isUpload ? 1 : 2));
+      if (!isUpload) {
+        context.table = segments[baseIndex + 1];
+      }
+      rest
+        .filter(segment => /^rec\w+$/.test(segment))
+        .forEach(id => recordIds.add(id));
+    }
+
+    parsed.searchParams.getAll('records[]').forEach(id => recordIds.add(id));
+    for (const record of Array.isArray(body?.records) ? body.records : []) {
+      if (typeof record?.id === 'string') {
+        recordIds.add(record.id);
+      }
+    }
+    if (recordIds.size > 0) {
+      context.recordIds = [...recordIds];
+    }
+
+    return context;
+  }
+
+  /**
+   * Sleep utility for retry backoff
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Settle with the promise, or reject as soon as the signal aborts
+ */
+function abortable<R>(promise: Promise<R>, signal?: AbortSignal): Promise<R> {
+  if (!signal) {
+    return promise;
+  }
+
+  const reason = () =>
+    signal.reason instanceof AirtableError ? signal.reason : new AbortError();
+  if (signal.aborted) {
+    return Promise.reject(reason());
+  }
+
+  return new Promise<R>((resolve, reject) => {
+    const onAbort = () => reject(reason());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+function eventInfo({ context, attempt }: Call) {
+  return {
+    method: context.method,
+    url: context.url,
+    table: context.table,
+    attempt,
+  };
+}
+
+function spanAttributes(context: CallContext): SpanAttributes {
+  const attributes: SpanAttributes = {
+    'http.request.method': context.method,
+    'url.full': context.url,
+  };
+  if (context.table) {
+    attributes['airtable.table'] = context.table;
+  }
+  return attributes;
+}
@@ -2,4 +2,23 @@ export * from './client';
 export * from './types';
 export * from './base';
 export * from './table';
+export * from './query';
+export * from './comments';
+export * from './webhooks';
+export * from './credentials';
 export * from './errors';
+export * from './events';
+export * from './rate-limiter';
+export * from './cache';
+export * as formula from './formula';
+export type {
+  DateUnit,
+  FieldName,
+  Formula,
+  FormulaOperand,
+  FormulaValue,
+} from './formula';
+export * from './middleware';
+export * from './codegen';
+export * as codecs from './codecs';
+export * from './mock';
@@ -0,0 +1,29 @@
+import { AirtableRequest, FetchFunction, Middleware } from './types';
+
+/**
+ * Chain middleware around a fetch implementation
+ */
+export function composeMiddleware(
+  fetchFn: FetchFunction,
+  middleware: Middleware[] = []
+): (request: AirtableRequest) => Promise<Response> {
+  const send = (request: AirtableRequest): Promise<Response> =>
+    fetchFn(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal,
+    });
+
+  return middleware.reduceRight<
+    (request: AirtableRequest) => Promise<Response>
+  >((next, handler) => request => handler(request, next), send);
+}
+
+/**
+ * Add headers to every outgoing request
+ */
+export function withHeaders(headers: { [name: string]: string }): Middleware {
+  return (request, next) =>
+    next({ ...request, headers: { ...request.headers, ...headers } });
+}
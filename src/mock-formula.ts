@@ -0,0 +1,441 @@
+import { FieldSet } from './types';
+
+type Value = string | number | boolean | null | Value[];
+
+export interface FormulaContext {
+  id: string;
+  createdTime: string;
+  modifiedTime: string;
+  fields: FieldSet;
+}
+
+type Node =
+  | { kind: 'literal'; value: Value }
+  | { kind: 'field'; name: string }
+  | { kind: 'call'; name: string; args: Node[] }
+  | { kind: 'unary'; operator: string; operand: Node }
+  | { kind: 'binary'; operator: string; left: Node; right: Node };
+
+interface Token {
+  type: 'number' | 'string' | 'field' | 'name' | 'operator' | 'paren' | 'comma';
+  value: string;
+}
+
+/**
+ * Error thrown for formulas the mock cannot parse or evaluate
+ */
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormulaError';
+    Object.setPrototypeOf(this, FormulaError.prototype);
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^[0-9]*\.?[0-9]+/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: match[0] });
+      i += match[0].length;
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          const next = source[i + 1];
+          value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) {
+        throw new FormulaError('Unterminated string literal');
+      }
+      i++;
+      tokens.push({ type: 'string', value });
+    } else if (char === '{') {
+      let name = '';
+      i++;
+      while (i < source.length && source[i] !== '}') {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          name += source[i + 1];
+          i += 2;
+        } else {
+          name += source[i++];
+        }
+      }
+      if (i >= source.length) {
+        throw new FormulaError('Unterminated field reference');
+      }
+      i++;
+      tokens.push({ type: 'field', value: name });
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'name', value: match[0] });
+      i += match[0].length;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', value: char });
+      i++;
+    } else if (char === ',') {
+      tokens.push({ type: 'comma', value: char });
+      i++;
+    } else {
+      const match = /^(!=|<=|>=|=|<|>|&|\+|-|\*|\/)/.exec(source.slice(i));
+      if (!match) {
+        throw new FormulaError(`Unexpected character "${char}"`);
+      }
+      tokens.push({ type: 'operator', value: match[0] });
+      i += match[0].length;
+    }
+  }
+
+  return tokens;
+}
+
+const PRECEDENCE: Array<string[]> = [
+  ['=', '!=', '<', '<=', '>', '>='],
+  ['&'],
+  ['+', '-'],
+  ['*', '/'],
+];
+
+function parse(source: string): Node {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+  const expect = (type: Token['type'], value?: string): Token => {
+    const token = tokens[position++];
+    if (!token || token.type !== type || (value && token.value !== value)) {
+      throw new FormulaError(`Expected ${value || type} in formula`);
+    }
+    return token;
+  };
+
+  const parseLevel = (level: number): Node => {
+    if (level >= PRECEDENCE.length) {
+      return parseUnary();
+    }
+
+    let left = parseLevel(level + 1);
+    for (;;) {
+      const token = peek();
+      if (
+        !token ||
+        token.type !== 'operator' ||
+        !PRECEDENCE[level].includes(token.value)
+      ) {
+        return left;
+      }
+      position++;
+      left = {
+        kind: 'binary',
+        operator: token.value,
+        left,
+        right: parseLevel(level + 1),
+      };
+    }
+  };
+
+  const parseUnary = (): Node => {
+    const token = peek();
+    if (token && token.type === 'operator' && token.value === '-') {
+      position++;
+      return { kind: 'unary', operator: '-', operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new FormulaError('Unexpected end of formula');
+    }
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'field':
+        return { kind: 'field', name: token.value };
+      case 'paren': {
+        if (token.value !== '(') {
+          throw new FormulaError('Unexpected ")" in formula');
+        }
+        const node = parseLevel(0);
+        expect('paren', ')');
+        return node;
+      }
+      case 'name': {
+        expect('paren', '(');
+        const args: Node[] = [];
+        if (peek()?.value !== ')') {
+          args.push(parseLevel(0));
+          while (peek()?.type === 'comma') {
+            position++;
+            args.push(parseLevel(0));
+          }
+        }
+        expect('paren', ')');
+        return { kind: 'call', name: token.value.toUpperCase(), args };
+      }
+      default:
+        throw new FormulaError(`Unexpected "${token.value}" in formula`);
+    }
+  };
+
+  const node = parseLevel(0);
+  if (position < tokens.length) {
+    throw new FormulaError(`Unexpected "${tokens[position].value}" in formula`);
+  }
+  return node;
+}
+
+function isBlank(value: Value): boolean {
+  return (
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function isTruthy(value: Value): boolean {
+  return !isBlank(value) && value !== 0 && value !== false;
+}
+
+function toText(value: Value): string {
+  if (value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(toText).join(', ');
+  }
+  if (typeof value === 'boolean') {
+    return value ? '1' : '0';
+  }
+  return String(value);
+}
+
+function toNumber(value: Value): number {
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (isBlank(value)) {
+    return 0;
+  }
+  return Number(toText(value));
+}
+
+function toTime(value: Value): number {
+  const time = new Date(toText(value)).getTime();
+  if (Number.isNaN(time)) {
+    throw new FormulaError(`Invalid date "${toText(value)}"`);
+  }
+  return time;
+}
+
+function compare(operator: string, left: Value, right: Value): boolean {
+  if (operator === '=' || operator === '!=') {
+    let equal: boolean;
+    if (isBlank(left) || isBlank(right)) {
+      equal = isBlank(left) && isBlank(right);
+    } else if (
+      typeof left === 'number' ||
+      typeof right === 'number' ||
+      typeof left === 'boolean' ||
+      typeof right === 'boolean'
+    ) {
+      equal = toNumber(left) === toNumber(right);
+    } else {
+      equal = toText(left) === toText(right);
+    }
+    return operator === '=' ? equal : !equal;
+  }
+
+  const numeric = typeof left === 'number' || typeof right === 'number';
+  const a = numeric ? toNumber(left) : toText(left);
+  const b = numeric ? toNumber(right) : toText(right);
+
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
+
+function dateDiff(left: number, right: number, unit: string): number {
+  const ms = left - right;
+  const a = new Date(left);
+  const b = new Date(right);
+  const months =
+    (a.getUTCFullYear() - b.getUTCFullYear()) * 12 +
+    (a.getUTCMonth() - b.getUTCMonth());
+
+  switch (unit) {
+    case 'milliseconds':
+    case 'ms':
+      return ms;
+    case 'seconds':
+    case 's':
+      return Math.trunc(ms / 1000);
+    case 'minutes':
+    case 'm':
+      return Math.trunc(ms / 60000);
+    case 'hours':
+    case 'h':
+      return Math.trunc(ms / 3600000);
+    case 'days':
+    case 'd':
+      return Math.trunc(ms / 86400000);
+    case 'weeks':
+    case 'w':
+      return Math.trunc(ms / 604800000);
+    case 'months':
+    case 'M':
+      return months;
+    case 'quarters':
+    case 'Q':
+      return Math.trunc(months / 3);
+    case 'years':
+    case 'y':
+      return Math.trunc(months / 12);
+    default:
+      throw new FormulaError(`Unsupported DATETIME_DIFF unit "${unit}"`);
+  }
+}
+
+function evaluate(node: Node, context: FormulaContext): Value {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field': {
+      const value = context.fields[node.name];
+      return value === undefined ? null : (value as Value);
+    }
+    case 'unary':
+      return -toNumber(evaluate(node.operand, context));
+    case 'binary': {
+      const left = evaluate(node.left, context);
+      const right = evaluate(node.right, context);
+      switch (node.operator) {
+        case '&':
+          return toText(left) + toText(right);
+        case '+':
+          return toNumber(left) + toNumber(right);
+        case '-':
+          return toNumber(left) - toNumber(right);
+        case '*':
+          return toNumber(left) * toNumber(right);
+        case '/':
+          return toNumber(left) / toNumber(right);
+        default:
+          return compare(node.operator, left, right);
+      }
+    }
+    case 'call':
+      return call(node.name, node.args, context);
+  }
+}
+
+function call(name: string, nodes: Node[], context: FormulaContext): Value {
+  if (name === 'IF') {
+    const [condition, then, otherwise] = nodes;
+    if (isTruthy(evaluate(condition, context))) {
+      return evaluate(then, context);
+    }
+    return otherwise ? evaluate(otherwise, context) : null;
+  }
+
+  const args = nodes.map(node => evaluate(node, context));
+
+  switch (name) {
+    case 'AND':
+      return args.every(isTruthy);
+    case 'OR':
+      return args.some(isTruthy);
+    case 'NOT':
+      return !isTruthy(args[0]);
+    case 'TRUE':
+      return true;
+    case 'FALSE':
+      return false;
+    case 'BLANK':
+      return null;
+    case 'RECORD_ID':
+      return context.id;
+    case 'CREATED_TIME':
+      return context.createdTime;
+    case 'LAST_MODIFIED_TIME':
+      return context.modifiedTime;
+    case 'FIND': {
+      const start = args[2] === undefined ? 0 : toNumber(args[2]) - 1;
+      return toText(args[1]).indexOf(toText(args[0]), Math.max(0, start)) + 1;
+    }
+    case 'SEARCH': {
+      const index = toText(args[1])
+        .toLowerCase()
+        .indexOf(toText(args[0]).toLowerCase());
+      return index === -1 ? null : index + 1;
+    }
+    case 'LOWER':
+      return toText(args[0]).toLowerCase();
+    case 'UPPER':
+      return toText(args[0]).toUpperCase();
+    case 'TRIM':
+      return toText(args[0]).trim();
+    case 'LEN':
+      return toText(args[0]).length;
+    case 'CONCATENATE':
+      return args.map(toText).join('');
+    case 'ARRAYJOIN':
+      return (Array.isArray(args[0]) ? args[0] : [args[0]])
+        .map(toText)
+        .join(args[1] === undefined ? ', ' : toText(args[1]));
+    case 'DATETIME_PARSE':
+      return new Date(toTime(args[0])).toISOString();
+    case 'TODAY':
+      return new Date().toISOString().slice(0, 10);
+    case 'NOW':
+      return new Date().toISOString();
+    case 'IS_BEFORE':
+      return toTime(args[0]) < toTime(args[1]);
+    case 'IS_AFTER':
+      return toTime(args[0]) > toTime(args[1]);
+    case 'IS_SAME':
+      return toTime(args[0]) === toTime(args[1]);
+    case 'DATETIME_DIFF':
+      return dateDiff(
+        toTime(args[0]),
+        toTime(args[1]),
+        args[2] === undefined ? 'seconds' : toText(args[2])
+      );
+    default:
+      throw new FormulaError(`Unsupported formula function ${name}()`);
+  }
+}
+
+/**
+ * Compile a formula into a predicate over records. Supports a subset of
+ * Airtable's formula language.
+ */
+export function compileFormula(
+  source: string
+): (context: FormulaContext) => boolean {
+  const node = parse(source);
+  return context => isTruthy(evaluate(node, context));
+}
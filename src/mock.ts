@@ -0,0 +1,854 @@
+import { FormulaError, compileFormula } from './mock-formula';
+import { RecordParams, toSearchParams } from './params';
+import { FetchFunction, FieldSet, FieldType, Record } from './types';
+
+/**
+ * Field definition of a mock table: a field type, or a type with the
+ * allowed select choices
+ */
+export type MockFieldDefinition =
+  FieldType | { type: FieldType; choices?: string[] };
+
+export interface MockTableDefinition {
+  /** Table ID (default: generated) */
+  id?: string;
+  /** Field types; when set, unknown fields and invalid values are rejected */
+  fields?: { [name: string]: MockFieldDefinition };
+  /** Initial records */
+  records?: FieldSet[];
+}
+
+export interface MockAirtableOptions {
+  /** Reject requests that don't use this API key */
+  apiKey?: string;
+  /** Delay applied to every request in milliseconds */
+  latencyMs?: number;
+  /** Default and maximum page size for list requests (default: 100) */
+  pageSize?: number;
+}
+
+export interface MockErrorRule {
+  status: number;
+  type?: string;
+  message?: string;
+  /** Number of requests to fail (default: 1) */
+  times?: number;
+  /** Only fail requests with this HTTP method */
+  method?: string;
+  /** Only fail requests for this table name or ID */
+  table?: string;
+  /** Retry-After header value in seconds */
+  retryAfter?: number;
+}
+
+export interface MockRequestLog {
+  method: string;
+  url: string;
+  body?: unknown;
+}
+
+export interface MockServer {
+  /** Base URL to pass as `baseUrl` to the client */
+  url: string;
+  close(): Promise<void>;
+}
+
+interface MockField {
+  type: FieldType;
+  choices?: Set<string>;
+}
+
+interface MockTable {
+  id: string;
+  name: string;
+  fields?: Map<string, MockField>;
+  records: MockRecord[];
+}
+
+interface MockRecord {
+  id: string;
+  createdTime: string;
+  modifiedTime: string;
+  fields: FieldSet;
+}
+
+/**
+ * The parts of a request body the mock reads
+ */
+interface MockRequestBody {
+  fields?: FieldSet;
+  records?: Array<{ id?: string; fields?: FieldSet }>;
+  typecast?: boolean;
+  performUpsert?: { fieldsToMergeOn?: string[] };
+}
+
+class MockHttpError extends Error {
+  constructor(
+    public status: number,
+    public type: string,
+    message: string,
+    public headers: { [name: string]: string } = {}
+  ) {
+    super(message);
+  }
+}
+
+const MAX_RECORDS_PER_REQUEST = 10;
+
+const COMPUTED_TYPES: FieldType[] = [
+  'autoNumber',
+  'button',
+  'count',
+  'createdBy',
+  'createdTime',
+  'formula',
+  'lastModifiedBy',
+  'lastModifiedTime',
+  'multipleLookupValues',
+  'rollup',
+  'aiText',
+];
+
+/**
+ * In-memory implementation of the Airtable record endpoints, for tests
+ * that should not hit the network. Pass `mock.fetch` as the client's
+ * `fetch`, or start a local HTTP server with `listen()`.
+ */
+export class MockAirtable {
+  /** Requests received, oldest first */
+  readonly requests: MockRequestLog[] = [];
+  /** Fetch implementation backed by this mock */
+  readonly fetch: FetchFunction;
+  latencyMs: number;
+
+  private readonly apiKey?: string;
+  private readonly pageSize: number;
+  private readonly bases = new Map<string, MockTable[]>();
+  private errors: MockErrorRule[] = [];
+  private nextId = 1;
+
+  constructor(options: MockAirtableOptions = {}) {
+    this.apiKey = options.apiKey;
+    this.latencyMs = options.latencyMs ?? 0;
+    this.pageSize = options.pageSize ?? 100;
+    this.fetch = (url, init) => this.handle(url, init);
+  }
+
+  /**
+   * Add a table to a base, returning its ID
+   */
+  createTable(
+    baseId: string,
+    name: string,
+    definition: MockTableDefinition = {}
+  ): string {
+    const table: MockTable = {
+      id: definition.id || this.generateId('tbl'),
+      name,
+      records: [],
+    };
+
+    if (definition.fields) {
+      table.fields = new Map();
+      for (const [field, value] of Object.entries(definition.fields)) {
+        const { type, choices } =
+          typeof value === 'string'
+            ? { type: value, choices: undefined }
+            : value;
+        table.fields.set(field, {
+          type,
+          choices: choices ? new Set(choices) : undefined,
+        });
+      }
+    }
+
+    const tables = this.bases.get(baseId) || [];
+    tables.push(table);
+    this.bases.set(baseId, tables);
+
+    for (const fields of definition.records || []) {
+      this.insert(table, fields);
+    }
+    return table.id;
+  }
+
+  /**
+   * Get the records currently stored in a table
+   */
+  getRecords(baseId: string, tableIdOrName: string): Record[] {
+    return this.getTable(baseId, tableIdOrName).records.map(record =>
+      this.toRecord(record)
+    );
+  }
+
+  /**
+   * Make upcoming requests fail with the given error
+   */
+  injectError(rule: MockErrorRule): void {
+    this.errors.push({ times: 1, ...rule });
+  }
+
+  /**
+   * Remove all tables, injected errors and logged requests
+   */
+  reset(): void {
+    this.bases.clear();
+    this.errors = [];
+    this.requests.length = 0;
+  }
+
+  /**
+   * Handle a request the way the Airtable API would
+   */
+  async handle(url: string, init: RequestInit = {}): Promise<Response> {
+    const method = (init.method || 'GET').toUpperCase();
+    let body: unknown;
+    let malformed = false;
+    if (typeof init.body === 'string' && init.body) {
+      try {
+        body = JSON.parse(init.body);
+      } catch {
+        body = init.body;
+        malformed = true;
+      }
+    }
+    this.requests.push({ method, url, body });
+
+    if (this.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+
+    try {
+      const headers = new Headers(init.headers);
+      if (
+        this.apiKey &&
+        headers.get('Authorization') !== `Bearer ${this.apiKey}`
+      ) {
+        throw new MockHttpError(
+          401,
+          'AUTHENTICATION_REQUIRED',
+          'Authentication required'
+        );
+      }
+      if (malformed) {
+        throw new MockHttpError(
+          400,
+          'INVALID_REQUEST_BODY',
+          'The request body is not valid JSON'
+        );
+      }
+
+      return this.route(method, new URL(url), body);
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return this.json(
+          error.status,
+          { error: { type: error.type, message: error.message } },
+          error.headers
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Serve the mock over HTTP on localhost
+   */
+  async listen(port = 0): Promise<MockServer> {
+    const http = await import('http');
+
+    const server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', async () => {
+        const headers: { [name: string]: string } = {};
+        for (const [name, value] of Object.entries(req.headers)) {
+          if (typeof value === 'string') {
+            headers[name] = value;
+          }
+        }
+
+        try {
+          const response = await this.handle(`http://localhost${req.url}`, {
+            method: req.method,
+            headers,
+            body: chunks.length ? Buffer.concat(chunks).toString() : undefined,
+          });
+          res.writeHead(response.status, Object.fromEntries(response.headers));
+          res.end(await response.text());
+        } catch (error) {
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(
+            JSON.stringify({
+              error: {
+                type: 'SERVER_ERROR',
+                message: error instanceof Error ? error.message : String(error),
+              },
+            })
+          );
+        }
+      });
+    });
+
+    await new Promise<void>(resolve =>
+      server.listen(port, '127.0.0.1', () => resolve())
+    );
+    const address = server.address() as { port: number };
+
+    return {
+      url: `http://127.0.0.1:${address.port}/v0`,
+      close: () =>
+        new Promise<void>((resolve, reject) =>
+          server.close(error => (error ? reject(error) : resolve()))
+        ),
+    };
+  }
+
+  private route(method: string, url: URL, json: unknown): Response {
+    const body = (
+      typeof json === 'object' && json !== null ? json : {}
+    ) as MockRequestBody;
+    const segments = url.pathname
+      .split('/')
+      .filter(Boolean)
+      .map(decodeURIComponent);
+    const baseIndex = segments.findIndex(segment => segment.startsWith('app'));
+    if (baseIndex === -1 || segments.length - baseIndex < 2) {
+      throw new MockHttpError(
+        404,
+        'NOT_FOUND',
+        'Could not find what you are looking for'
+      );
+    }
+
+    const [baseId, tableIdOrName, recordId] = segments.slice(baseIndex);
+    this.takeInjectedError(method, tableIdOrName);
+    const table = this.getTable(baseId, tableIdOrName);
+
+    if (recordId === 'listRecords' && method === 'POST') {
+      return this.json(
+        200,
+        this.listRecords(table, toSearchParams(body as RecordParams))
+      );
+    }
+
+    if (recordId) {
+      switch (method) {
+        case 'GET':
+          return this.json(
+            200,
+            this.toRecord(this.findRecord(table, recordId))
+          );
+        case 'PATCH':
+        case 'PUT':
+          return this.json(
+            200,
+            this.toRecord(
+              this.applyUpdate(
+                this.validateUpdate(
+                  table,
+                  { ...body, id: recordId },
+                  !!body.typecast
+                ),
+                method === 'PUT'
+              )
+            )
+          );
+        case 'DELETE':
+          return this.json(200, this.deleteRecords(table, [recordId])[0]);
+      }
+    } else {
+      switch (method) {
+        case 'GET':
+          return this.json(200, this.listRecords(table, url.searchParams));
+        case 'POST':
+          return this.json(200, this.createRecords(table, body));
+        case 'PATCH':
+        case 'PUT':
+          return this.json(
+            200,
+            this.updateRecords(table, body, method === 'PUT')
+          );
+        case 'DELETE':
+          return this.json(200, {
+            records: this.deleteRecords(
+              table,
+              url.searchParams.getAll('records[]')
+            ),
+          });
+      }
+    }
+
+    throw new MockHttpError(
+      404,
+      'NOT_FOUND',
+      `Unsupported request ${method} ${url.pathname}`
+    );
+  }
+
+  private listRecords(table: MockTable, params: URLSearchParams): unknown {
+    let records = table.records;
+
+    const formula = params.get('filterByFormula');
+    if (formula) {
+      let predicate: (record: MockRecord) => boolean;
+      try {
+        predicate = compileFormula(formula);
+        records = records.filter(record => predicate(record));
+      } catch (error) {
+        if (error instanceof FormulaError) {
+          throw new MockHttpError(
+            422,
+            'INVALID_FILTER_BY_FORMULA',
+            `The formula for filtering records is invalid: ${error.message}`
+          );
+        }
+        throw error;
+      }
+    }
+
+    const sorts: Array<{ field: string; direction: string }> = [];
+    for (let i = 0; params.has(`sort[${i}][field]`); i++) {
+      sorts.push({
+        field: params.get(`sort[${i}][field]`)!,
+        direction: params.get(`sort[${i}][direction]`) || 'asc',
+      });
+    }
+    if (sorts.length > 0) {
+      records = [...records].sort((a, b) => {
+        for (const sort of sorts) {
+          const result = compareValues(
+            a.fields[sort.field],
+            b.fields[sort.field]
+          );
+          if (result !== 0) {
+            return sort.direction === 'desc' ? -result : result;
+          }
+        }
+        return 0;
+      });
+    }
+
+    const maxRecords = Number(params.get('maxRecords')) || undefined;
+    if (maxRecords !== undefined) {
+      records = records.slice(0, maxRecords);
+    }
+
+    const pageSize = Math.min(
+      Number(params.get('pageSize')) || this.pageSize,
+      this.pageSize
+    );
+    const offset = params.get('offset');
+    const start = offset ? Number(offset.replace(/^itr/, '')) : 0;
+    if (Number.isNaN(start)) {
+      throw new MockHttpError(
+        422,
+        'LIST_RECORDS_ITERATOR_NOT_AVAILABLE',
+        'Invalid offset'
+      );
+    }
+
+    const page = records.slice(start, start + pageSize);
+    const fields = params.getAll('fields[]');
+
+    return {
+      records: page.map(record => this.toRecord(record, fields)),
+      offset:
+        start + pageSize < records.length
+          ? `itr${start + pageSize}`
+          : undefined,
+    };
+  }
+
+  private createRecords(table: MockTable, body: MockRequestBody): unknown {
+    if (!body.records) {
+      return this.toRecord(
+        this.insert(table, body.fields || {}, !!body.typecast)
+      );
+    }
+
+    this.checkRecordCount(body.records);
+    // Airtable rejects the whole request when any record is invalid
+    const validated = body.records.map(record =>
+      this.validateFields(table, record.fields || {}, !!body.typecast)
+    );
+    return {
+      records: validated.map(fields =>
+        this.toRecord(this.addRecord(table, fields))
+      ),
+    };
+  }
+
+  private updateRecords(
+    table: MockTable,
+    body: MockRequestBody,
+    replace: boolean
+  ): unknown {
+    const records = body.records || [];
+    this.checkRecordCount(records);
+    const typecast = !!body.typecast;
+
+    // Every record is checked before any is written, since Airtable rejects
+    // the whole request when one is invalid
+    const mergeOn = body.performUpsert?.fieldsToMergeOn;
+    if (!mergeOn) {
+      const updates = records.map(record =>
+        this.validateUpdate(table, record, typecast)
+      );
+      return {
+        records: updates.map(update =>
+          this.toRecord(this.applyUpdate(update, replace))
+        ),
+      };
+    }
+
+    const writes = records.map(record => {
+      const fields = record.fields || {};
+      const matches = record.id
+        ? [this.findRecord(table, record.id)]
+        : table.records.filter(existing =>
+            mergeOn.every(
+              field =>
+                compareValues(existing.fields[field], fields[field]) === 0
+            )
+          );
+
+      if (matches.length > 1) {
+        throw new MockHttpError(
+          422,
+          'INVALID_VALUE_FOR_COLUMN',
+          `Multiple records match the fields to merge on: ${mergeOn.join(', ')}`
+        );
+      }
+      return matches.length === 0
+        ? { fields: this.validateFields(table, fields, typecast) }
+        : this.validateUpdate(table, { id: matches[0].id, fields }, typecast);
+    });
+
+    const createdRecords: string[] = [];
+    const updatedRecords: string[] = [];
+    const results = writes.map(write => {
+      if (!('record' in write)) {
+        const created = this.addRecord(table, write.fields);
+        createdRecords.push(created.id);
+        return this.toRecord(created);
+      }
+
+      const updated = this.applyUpdate(write, replace);
+      updatedRecords.push(updated.id);
+      return this.toRecord(updated);
+    });
+
+    return { records: results, createdRecords, updatedRecords };
+  }
+
+  private validateUpdate(
+    table: MockTable,
+    update: { id?: string; fields?: FieldSet },
+    typecast: boolean
+  ): { record: MockRecord; fields: FieldSet } {
+    if (!update.id) {
+      throw new MockHttpError(
+        422,
+        'INVALID_RECORDS',
+        'Each record must have an id'
+      );
+    }
+
+    return {
+      record: this.findRecord(table, update.id),
+      fields: this.validateFields(table, update.fields || {}, typecast),
+    };
+  }
+
+  private applyUpdate(
+    { record, fields }: { record: MockRecord; fields: FieldSet },
+    replace: boolean
+  ): MockRecord {
+    record.fields = replace ? fields : { ...record.fields, ...fields };
+    record.modifiedTime = new Date().toISOString();
+    return record;
+  }
+
+  private deleteRecords(
+    table: MockTable,
+    recordIds: string[]
+  ): Array<{ id: string; deleted: boolean }> {
+    this.checkRecordCount(recordIds);
+    recordIds.forEach(id => this.findRecord(table, id));
+
+    table.records = table.records.filter(
+      record => !recordIds.includes(record.id)
+    );
+    return recordIds.map(id => ({ id, deleted: true }));
+  }
+
+  private insert(
+    table: MockTable,
+    fields: FieldSet,
+    typecast = true
+  ): MockRecord {
+    return this.addRecord(table, this.validateFields(table, fields, typecast));
+  }
+
+  /**
+   * Add a record whose fields were already validated
+   */
+  private addRecord(table: MockTable, fields: FieldSet): MockRecord {
+    const now = new Date().toISOString();
+    const record: MockRecord = {
+      id: this.generateId('rec'),
+      createdTime: now,
+      modifiedTime: now,
+      fields,
+    };
+    table.records.push(record);
+    return record;
+  }
+
+  /**
+   * Check values against the table's field types, converting them when
+   * `typecast` is set
+   */
+  private validateFields(
+    table: MockTable,
+    fields: FieldSet,
+    typecast: boolean
+  ): FieldSet {
+    const result: FieldSet = {};
+
+    for (const [name, value] of Object.entries(fields)) {
+      const field = table.fields?.get(name);
+      if (table.fields && !field) {
+        throw new MockHttpError(
+          422,
+          'UNKNOWN_FIELD_NAME',
+          `Unknown field name: "${name}"`
+        );
+      }
+      if (value === null || value === undefined || value === '') {
+        continue;
+      }
+      result[name] = field ? convertValue(name, field, value, typecast) : value;
+    }
+
+    return result;
+  }
+
+  private checkRecordCount(records: unknown[]): void {
+    if (records.length > MAX_RECORDS_PER_REQUEST) {
+      throw new MockHttpError(
+        422,
+        'INVALID_RECORDS',
+        `You can only send up to ${MAX_RECORDS_PER_REQUEST} records per request`
+      );
+    }
+  }
+
+  private takeInjectedError(method: string, table: string): void {
+    const rule = this.errors.find(
+      candidate =>
+        (!candidate.method || candidate.method.toUpperCase() === method) &&
+        (!candidate.table || candidate.table === table)
+    );
+    if (!rule) {
+      return;
+    }
+
+    rule.times = (rule.times ?? 1) - 1;
+    if (rule.times <= 0) {
+      this.errors.splice(this.errors.indexOf(rule), 1);
+    }
+
+    throw new MockHttpError(
+      rule.status,
+      rule.type || (rule.status === 429 ? 'RATE_LIMIT_REACHED' : 'MOCK_ERROR'),
+      rule.message || `Injected error with status ${rule.status}`,
+      rule.retryAfter === undefined
+        ? {}
+        : { 'Retry-After': String(rule.retryAfter) }
+    );
+  }
+
+  private getTable(baseId: string, tableIdOrName: string): MockTable {
+    const tables = this.bases.get(baseId);
+    if (!tables) {
+      throw new MockHttpError(
+        403,
+        'INVALID_PERMISSIONS_OR_MODEL_NOT_FOUND',
+        'Invalid permissions, or the requested model was not found'
+      );
+    }
+
+    const table = tables.find(
+      t => t.id === tableIdOrName || t.name === tableIdOrName
+    );
+    if (!table) {
+      throw new MockHttpError(
+        404,
+        'TABLE_NOT_FOUND',
+        `Could not find table ${tableIdOrName} in application ${baseId}`
+      );
+    }
+    return table;
+  }
+
+  private findRecord(table: MockTable, recordId: string): MockRecord {
+    const record = table.records.find(r => r.id === recordId);
+    if (!record) {
+      throw new MockHttpError(
+        404,
+        'NOT_FOUND',
+        `Could not find record ${recordId}`
+      );
+    }
+    return record;
+  }
+
+  private toRecord(record: MockRecord, fields: string[] = []): Record {
+    const selected: FieldSet = {};
+    for (const [name, value] of Object.entries(record.fields)) {
+      if (fields.length === 0 || fields.includes(name)) {
+        selected[name] = structuredClone(value);
+      }
+    }
+    return { id: record.id, createdTime: record.createdTime, fields: selected };
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}${String(this.nextId++).padStart(14, '0')}`;
+  }
+
+  private json(
+    status: number,
+    body: unknown,
+    headers: { [name: string]: string } = {}
+  ): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json', ...headers },
+    });
+  }
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const blankA = a === undefined || a === null || a === '';
+  const blankB = b === undefined || b === null || b === '';
+  if (blankA || blankB) {
+    return blankA === blankB ? 0 : blankA ? -1 : 1;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b));
+}
+
+function convertValue(
+  name: string,
+  field: MockField,
+  value: unknown,
+  typecast: boolean
+): unknown {
+  const invalid = () =>
+    new MockHttpError(
+      422,
+      'INVALID_VALUE_FOR_COLUMN',
+      `Field "${name}" cannot accept the provided value`
+    );
+
+  if (COMPUTED_TYPES.includes(field.type)) {
+    throw new MockHttpError(
+      422,
+      'INVALID_VALUE_FOR_COLUMN',
+      `Field "${name}" cannot accept a value because the field is computed`
+    );
+  }
+
+  switch (field.type) {
+    case 'number':
+    case 'percent':
+    case 'currency':
+    case 'rating':
+    case 'duration': {
+      if (typeof value === 'number') {
+        return value;
+      }
+      const number = Number(value);
+      if (typecast && typeof value === 'string' && !Number.isNaN(number)) {
+        return number;
+      }
+      throw invalid();
+    }
+    case 'checkbox':
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      if (typecast) {
+        return value === 'true' || value === 1 || value === '1';
+      }
+      throw invalid();
+    case 'singleSelect':
+    case 'multipleSelects': {
+      const multiple = field.type === 'multipleSelects';
+      let choices: unknown[];
+      if (multiple && Array.isArray(value)) {
+        choices = value;
+      } else if (typeof value === 'string' && (!multiple || typecast)) {
+        choices = multiple ? value.split(',').map(c => c.trim()) : [value];
+      } else {
+        throw invalid();
+      }
+
+      for (const choice of choices) {
+        if (typeof choice !== 'string') {
+          throw invalid();
+        }
+        if (field.choices && !field.choices.has(choice)) {
+          if (!typecast) {
+            throw new MockHttpError(
+              422,
+              'INVALID_MULTIPLE_CHOICE_OPTIONS',
+              `Insufficient permissions to create new select option "${choice}"`
+            );
+          }
+          field.choices.add(choice);
+        }
+      }
+      return multiple ? choices : choices[0];
+    }
+    case 'multipleRecordLinks':
+      if (Array.isArray(value) && value.every(id => typeof id === 'string')) {
+        return value;
+      }
+      if (typecast && typeof value === 'string') {
+        return [value];
+      }
+      throw invalid();
+    case 'date':
+    case 'dateTime':
+      if (
+        typeof value === 'string' &&
+        !Number.isNaN(new Date(value).getTime())
+      ) {
+        return field.type === 'date'
+          ? new Date(value).toISOString().slice(0, 10)
+          : new Date(value).toISOString();
+      }
+      throw invalid();
+    case 'singleLineText':
+    case 'multilineText':
+    case 'richText':
+    case 'email':
+    case 'url':
+    case 'phoneNumber':
+      if (typeof value === 'string') {
+        return value;
+      }
+      if (typecast) {
+        return String(value);
+      }
+      throw invalid();
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,90 @@
+import { FieldSet, ListRecordsOptions } from './types';
+
+/** Longest GET URL accepted by the API */
+export const MAX_URL_LENGTH = 16000;
+
+/**
+ * Record read parameters under their API names, as sent in a `listRecords`
+ * POST body
+ */
+export interface RecordParams {
+  fields?: string[];
+  filterByFormula?: string;
+  maxRecords?: number;
+  pageSize?: number;
+  sort?: Array<{ field: string; direction: 'asc' | 'desc' }>;
+  view?: string;
+  cellFormat?: 'json' | 'string';
+  timeZone?: string;
+  userLocale?: string;
+  returnFieldsByFieldId?: boolean;
+  offset?: string;
+}
+
+/**
+ * Collect the parameters set in list or find options
+ */
+export function recordParams<T extends FieldSet>(
+  options: ListRecordsOptions<T> & { offset?: string }
+): RecordParams {
+  const params: RecordParams = {};
+
+  if (options.fields) {
+    params.fields = options.fields;
+  }
+  if (options.filterByFormula) {
+    params.filterByFormula = options.filterByFormula.toString();
+  }
+  if (options.maxRecords) {
+    params.maxRecords = options.maxRecords;
+  }
+  if (options.pageSize) {
+    params.pageSize = options.pageSize;
+  }
+  if (options.sort) {
+    params.sort = options.sort;
+  }
+  if (options.view) {
+    params.view = options.view;
+  }
+  if (options.cellFormat) {
+    params.cellFormat = options.cellFormat;
+  }
+  if (options.timeZone) {
+    params.timeZone = options.timeZone;
+  }
+  if (options.userLocale) {
+    params.userLocale = options.userLocale;
+  }
+  if (options.returnFieldsByFieldId) {
+    params.returnFieldsByFieldId = true;
+  }
+  if (options.offset) {
+    params.offset = options.offset;
+  }
+
+  return params;
+}
+
+/**
+ * Encode parameters as a query string, using the API's bracket notation for
+ * `fields[]` and `sort[n][...]`
+ */
+export function toSearchParams(params: RecordParams): URLSearchParams {
+  const search = new URLSearchParams();
+
+  for (const [name, value] of Object.entries(params)) {
+    if (name === 'fields') {
+      params.fields!.forEach(field => search.append('fields[]', field));
+    } else if (name === 'sort') {
+      params.sort!.forEach((sort, index) => {
+        search.append(`sort[${index}][field]`, sort.field);
+        search.append(`sort[${index}][direction]`, sort.direction || 'asc');
+      });
+    } else if (value !== undefined) {
+      search.append(name, String(value));
+    }
+  }
+
+  return search;
+}
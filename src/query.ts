@@ -0,0 +1,148 @@
+import { FieldName, Formula, and, raw } from './formula';
+import { AirtableTable } from './table';
+import {
+  FieldSet,
+  ListRecordsOptions,
+  ListRecordsResponse,
+  ReadOptions,
+  Record,
+} from './types';
+
+/**
+ * Immutable builder for list queries, created by `table.query()`. Each method
+ * returns a new query; `select` narrows the record type to the chosen fields.
+ * Iterating with `for await` yields every matching record.
+ */
+export class AirtableQuery<
+  T extends FieldSet = FieldSet,
+  R extends FieldSet = T,
+> implements AsyncIterable<Record<R>> {
+  constructor(
+    private readonly table: AirtableTable<T>,
+    private readonly options: ListRecordsOptions<T> = {}
+  ) {}
+
+  /**
+   * Only return the given fields
+   */
+  select<K extends FieldName<T>>(...fields: K[]): AirtableQuery<T, Pick<T, K>> {
+    return new AirtableQuery(this.table, { ...this.options, fields });
+  }
+
+  /**
+   * Filter records by a formula, combined with earlier filters using AND
+   */
+  where(formula: string | Formula<T>): AirtableQuery<T, R> {
+    const current = this.options.filterByFormula;
+    const next = typeof formula === 'string' ? raw<T>(formula) : formula;
+    return this.with({
+      filterByFormula:
+        current === undefined
+          ? next
+          : and(typeof current === 'string' ? raw<T>(current) : current, next),
+    });
+  }
+
+  /**
+   * Sort by a field, after any earlier sorts
+   */
+  orderBy(
+    field: FieldName<T>,
+    direction: 'asc' | 'desc' = 'asc'
+  ): AirtableQuery<T, R> {
+    return this.with({
+      sort: [...(this.options.sort || []), { field, direction }],
+    });
+  }
+
+  /**
+   * Only return records visible in a view, in the view's order
+   */
+  view(name: string): AirtableQuery<T, R> {
+    return this.with({ view: name });
+  }
+
+  /**
+   * Return at most `maxRecords` records
+   */
+  limit(maxRecords: number): AirtableQuery<T, R> {
+    return this.with({ maxRecords });
+  }
+
+  /**
+   * Number of records fetched per request (max 100)
+   */
+  pageSize(pageSize: number): AirtableQuery<T, R> {
+    return this.with({ pageSize });
+  }
+
+  /**
+   * The `listRecords` options this query compiles to
+   */
+  toOptions(): ListRecordsOptions<T> {
+    return { ...this.options };
+  }
+
+  /**
+   * Get all matching records
+   */
+  async all(options: ReadOptions = {}): Promise<Record<R>[]> {
+    return (await this.table.select({
+      ...this.options,
+      ...options,
+    })) as unknown as Record<R>[];
+  }
+
+  /**
+   * Get the first matching record, if any
+   */
+  async first(options: ReadOptions = {}): Promise<Record<R> | undefined> {
+    const response = await this.table.listRecords({
+      ...this.options,
+      ...options,
+      maxRecords: 1,
+    });
+    return response.records[0] as unknown as Record<R> | undefined;
+  }
+
+  /**
+   * Get a single page of records, starting at `offset`
+   */
+  async page(
+    offset?: string,
+    options: ReadOptions = {}
+  ): Promise<ListRecordsResponse<R>> {
+    return (await this.table.listRecords({
+      ...this.options,
+      ...options,
+      offset,
+    })) as unknown as ListRecordsResponse<R>;
+  }
+
+  /**
+   * Count matching records. This fetches every page of the query, without
+   * field values.
+   */
+  async count(options: ReadOptions = {}): Promise<number> {
+    let count = 0;
+    // An empty field list only reaches the API in a POST body; a GET request
+    // without `fields[]` returns every field
+    for await (const page of this.table.pages({
+      ...this.options,
+      ...options,
+      fields: [],
+      method: 'POST',
+    })) {
+      count += page.records.length;
+    }
+    return count;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<Record<R>> {
+    yield* this.table.iterate(this.options) as AsyncIterable<Record<R>>;
+  }
+
+  private with(options: ListRecordsOptions<T>): AirtableQuery<T, R> {
+    return new AirtableQuery(this.table, { ...this.options, ...options });
+  }
+}
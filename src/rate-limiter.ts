@@ -0,0 +1,127 @@
+import { AbortError } from './errors';
+import { RateLimitOptions } from './types';
+
+export interface RateLimiterStats {
+  /** Requests currently waiting for a token */
+  queueDepth: number;
+  /** Estimated wait in milliseconds for a request queued now */
+  estimatedWaitMs: number;
+  /** Requests that passed through the limiter */
+  totalRequests: number;
+  /** Requests that had to wait for a token */
+  throttledRequests: number;
+  /** Total time in milliseconds that requests spent waiting */
+  totalWaitMs: number;
+}
+
+interface QueuedRequest {
+  resolve: () => void;
+  queuedAt: number;
+}
+
+/**
+ * Token bucket shared by every table of a base, so concurrent calls stay
+ * under Airtable's per-base request limit
+ */
+export class RateLimiter {
+  private readonly requestsPerSecond: number;
+  private readonly burst: number;
+  private tokens: number;
+  private lastRefill: number;
+  private readonly queue: QueuedRequest[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private totalRequests = 0;
+  private throttledRequests = 0;
+  private totalWaitMs = 0;
+
+  constructor(options: RateLimitOptions = {}) {
+    this.requestsPerSecond = options.requestsPerSecond ?? 5;
+    this.burst = options.burst ?? this.requestsPerSecond;
+    this.tokens = this.burst;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait until a request may be sent. Aborting the signal leaves the queue
+   * without taking a token.
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new AbortError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(request);
+        if (index >= 0) {
+          this.queue.splice(index, 1);
+          reject(new AbortError());
+        }
+      };
+      const request: QueuedRequest = {
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        queuedAt: Date.now(),
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(request);
+      this.drain();
+    });
+  }
+
+  /**
+   * Get queue depth and wait time statistics
+   */
+  getStats(): RateLimiterStats {
+    this.refill();
+    const deficit = this.queue.length + 1 - this.tokens;
+
+    return {
+      queueDepth: this.queue.length,
+      estimatedWaitMs:
+        deficit > 0 ? Math.ceil((deficit / this.requestsPerSecond) * 1000) : 0,
+      totalRequests: this.totalRequests,
+      throttledRequests: this.throttledRequests,
+      totalWaitMs: this.totalWaitMs,
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(
+      this.burst,
+      this.tokens + elapsed * this.requestsPerSecond
+    );
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    this.refill();
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      const request = this.queue.shift()!;
+      const waited = Date.now() - request.queuedAt;
+
+      this.tokens -= 1;
+      this.totalRequests++;
+      if (waited > 0) {
+        this.throttledRequests++;
+        this.totalWaitMs += waited;
+      }
+      request.resolve();
+    }
+
+    if (this.queue.length > 0 && !this.timer) {
+      const delay = Math.ceil(
+        ((1 - this.tokens) / this.requestsPerSecond) * 1000
+      );
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, delay);
+    }
+  }
+}
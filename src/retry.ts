@@ -0,0 +1,102 @@
+import { AirtableError } from './errors';
+import { RetryOptions } from './types';
+
+export type ResolvedRetryOptions = Required<RetryOptions>;
+
+export const DEFAULT_RETRY_OPTIONS: ResolvedRetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  jitter: true,
+  rateLimitDelayMs: 30000,
+  retryableStatusCodes: [429, 500, 502, 503, 504],
+  retryableErrorTypes: ['NETWORK_ERROR'],
+  retryNonIdempotent: false,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Merge user retry options with the defaults
+ */
+export function resolveRetryOptions(
+  options?: RetryOptions | false
+): ResolvedRetryOptions {
+  if (options === false) {
+    return { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 1 };
+  }
+  return { ...DEFAULT_RETRY_OPTIONS, ...options };
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now()
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether a failed request may be sent again. `idempotent` overrides
+ * the method check for reads sent with POST.
+ */
+export function isRetryable(
+  error: AirtableError,
+  method: string,
+  options: ResolvedRetryOptions,
+  idempotent = IDEMPOTENT_METHODS.includes(method)
+): boolean {
+  const retryable =
+    (error.statusCode !== undefined &&
+      options.retryableStatusCodes.includes(error.statusCode)) ||
+    (error.errorType !== undefined &&
+      options.retryableErrorTypes.includes(error.errorType));
+
+  if (!retryable) {
+    return false;
+  }
+  if (options.retryNonIdempotent || idempotent) {
+    return true;
+  }
+
+  // A 429 is rejected before any work is done, so resending a POST is safe
+  return error.statusCode === 429;
+}
+
+/**
+ * Compute how long to wait before the next attempt
+ */
+export function getRetryDelay(
+  error: AirtableError,
+  attempt: number,
+  options: ResolvedRetryOptions
+): number {
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
+  if (error.statusCode === 429) {
+    return options.rateLimitDelayMs;
+  }
+
+  const delay = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** (attempt - 1)
+  );
+  return options.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
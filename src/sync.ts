@@ -0,0 +1,194 @@
+import { AirtableError } from './errors';
+import {
+  FieldSet,
+  Record,
+  RecordUpdate,
+  SyncOptions,
+  SyncPlan,
+  WritableFields,
+} from './types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Work out the creates, updates and deletes that make `existing` match
+ * `local`, matching records on the key fields
+ */
+export function planSync<T extends FieldSet>(
+  existing: Record<T>[],
+  local: Array<WritableFields<T>>,
+  options: Pick<SyncOptions<T>, 'keyFields' | 'compareFields' | 'deleteMissing'>
+): SyncPlan<T> {
+  const keyOf = (fields: FieldSet) =>
+    JSON.stringify(options.keyFields.map(field => keyValue(fields[field])));
+
+  const byKey = new Map<string, Record<T>>();
+  const duplicates: Record<T>[] = [];
+  for (const record of existing) {
+    const key = keyOf(record.fields);
+    if (byKey.has(key)) {
+      duplicates.push(record);
+    } else {
+      byKey.set(key, record);
+    }
+  }
+
+  const plan: SyncPlan<T> = {
+    creates: [],
+    updates: [],
+    deletes: [],
+    unchanged: 0,
+  };
+  const seen = new Set<string>();
+
+  for (const fields of local) {
+    const key = keyOf(fields);
+    if (seen.has(key)) {
+      throw new AirtableError(
+        `Duplicate sync key ${key} in local records`,
+        undefined,
+        'DUPLICATE_SYNC_KEY'
+      );
+    }
+    seen.add(key);
+
+    const record = byKey.get(key);
+    if (!record) {
+      plan.creates.push({ fields });
+      continue;
+    }
+
+    const changed: FieldSet = {};
+    const compared = options.compareFields || Object.keys(fields);
+    for (const field of compared) {
+      const value = (fields as FieldSet)[field];
+      if (!valuesEqual(value, record.fields[field])) {
+        changed[field] = value === undefined ? null : value;
+      }
+    }
+
+    if (Object.keys(changed).length > 0) {
+      plan.updates.push({
+        id: record.id,
+        fields: changed as RecordUpdate<T>['fields'],
+      });
+    } else {
+      plan.unchanged++;
+    }
+  }
+
+  if (options.deleteMissing) {
+    for (const [key, record] of byKey) {
+      if (!seen.has(key)) {
+        plan.deletes.push(record);
+      }
+    }
+    plan.deletes.push(...duplicates);
+  }
+
+  return plan;
+}
+
+/**
+ * Compare a local value with the value read from Airtable. Empty values
+ * (which Airtable omits), dates in any ISO format, attachments and
+ * collaborators by ID, and arrays element by element are treated as equal.
+ */
+export function valuesEqual(local: unknown, remote: unknown): boolean {
+  if (isEmpty(local) || isEmpty(remote)) {
+    return isEmpty(local) && isEmpty(remote);
+  }
+
+  if (local instanceof Date || remote instanceof Date) {
+    return datesEqual(local, remote);
+  }
+  if (
+    typeof local === 'string' &&
+    typeof remote === 'string' &&
+    DATE_PATTERN.test(local) &&
+    DATE_PATTERN.test(remote)
+  ) {
+    return datesEqual(local, remote);
+  }
+
+  if (Array.isArray(local) || Array.isArray(remote)) {
+    return (
+      Array.isArray(local) &&
+      Array.isArray(remote) &&
+      local.length === remote.length &&
+      local.every((item, i) => valuesEqual(item, remote[i]))
+    );
+  }
+
+  if (isObject(local) && isObject(remote)) {
+    return objectsEqual(local, remote);
+  }
+
+  return local === remote;
+}
+
+function objectsEqual(
+  local: { [key: string]: unknown },
+  remote: { [key: string]: unknown }
+): boolean {
+  // Attachments and collaborators are identified by ID
+  if (local.id !== undefined) {
+    return local.id === remote.id;
+  }
+  // A new attachment is given by URL, but Airtable serves its own copy
+  if (typeof local.url === 'string' && typeof remote.filename === 'string') {
+    return (local.filename ?? fileName(local.url)) === remote.filename;
+  }
+  // Only the properties set locally matter, e.g. a collaborator's email
+  return Object.keys(local).every(key => valuesEqual(local[key], remote[key]));
+}
+
+function datesEqual(local: unknown, remote: unknown): boolean {
+  const toDate = (value: unknown) =>
+    value instanceof Date ? value : new Date(String(value));
+  const isDateOnly = (value: unknown) =>
+    typeof value === 'string' && value.length === 10;
+
+  const localDate = toDate(local);
+  const remoteDate = toDate(remote);
+  if (Number.isNaN(localDate.getTime()) || Number.isNaN(remoteDate.getTime())) {
+    return false;
+  }
+
+  // A date field holds no time, so only compare the day
+  if (isDateOnly(local) || isDateOnly(remote)) {
+    return (
+      localDate.toISOString().slice(0, 10) ===
+      remoteDate.toISOString().slice(0, 10)
+    );
+  }
+  return localDate.getTime() === remoteDate.getTime();
+}
+
+function keyValue(value: unknown): unknown {
+  if (isEmpty(value)) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return value;
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    value === false ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null;
+}
+
+function fileName(url: string): string {
+  return decodeURIComponent(url.split(/[?#]/)[0].split('/').pop() || '');
+}
@@ -5,96 +5,245 @@ import {
   ListRecordsResponse,
   CreateRecordsOptions,
   UpdateRecordsOptions,
+  UpsertRecordsOptions,
+  UpsertRecordsResponse,
   DeleteRecordsResponse,
   FieldSet,
+  FieldCodecs,
+  WritableFields,
+  TableOptions,
+  RequestOptions,
+  BatchOptions,
+  FindRecordOptions,
+  FindRecordsOptions,
+  ExpandFields,
+  ExpandOptions,
+  Expanded,
+  Attachment,
+  AttachmentDestination,
+  DownloadAttachmentOptions,
+  UploadAttachmentInput,
+  UploadAttachmentResponse,
+  ReadOptions,
+  CellFormatOptions,
+  BatchResult,
+  DeletedRecord,
+  RecordUpdate,
+  BaseSchema,
+  TableSchema,
+  FieldSchema,
+  FieldInput,
+  UpdateTableInput,
+  UpdateFieldInput,
+  Logger,
+  SyncOptions,
+  SyncResult,
+  Credentials,
+  ExportDestination,
+  ExportOptions,
+  ImportSource,
+  ImportOptions,
+  ImportResult,
 } from './types';
-import { AirtableError, RateLimitError } from './errors';
+import {
+  AbortError,
+  AirtableError,
+  FieldValidationError,
+  NotFoundError,
+  ValidationError,
+} from './errors';
+import { readAttachmentData, writeToDestination } from './attachments';
+import { mapConcurrent, runBatch } from './batch';
+import {
+  DEFAULT_EXPAND_DEPTH,
+  checkExpandDepth,
+  expandRecords,
+} from './expand';
+import { ResponseCache, cacheKey } from './cache';
+import { RecordComments } from './comments';
+import { AirtableEvents } from './events';
+import { HttpClient, HttpRequestOptions } from './http';
+import { MAX_URL_LENGTH, recordParams, toSearchParams } from './params';
+import { AirtableQuery } from './query';
+import { planSync } from './sync';
+import {
+  ImportRow,
+  csvLine,
+  formatRecord,
+  mapRow,
+  parseRows,
+} from './transfer';
 
 export class AirtableTable<T extends FieldSet = FieldSet> {
   private readonly endpoint: string;
+  private readonly http: HttpClient;
+  private readonly codecs?: FieldCodecs;
+  private readonly decodeCreatedTime: boolean;
+  private readonly cache?: ResponseCache;
+  private readonly contentUrl: string;
+  private readonly events?: AirtableEvents;
+  private readonly logger: Logger;
 
   constructor(
     private readonly baseId: string,
     private readonly tableIdOrName: string,
-    private readonly apiKey: string,
-    private readonly baseUrl: string
+    credentials: string | Credentials,
+    private readonly baseUrl: string,
+    options: TableOptions = {}
   ) {
     this.endpoint = `${this.baseUrl}/${this.baseId}/${encodeURIComponent(
       this.tableIdOrName
     )}`;
+    this.http = new HttpClient(credentials, options);
+    this.codecs = options.codecs;
+    this.decodeCreatedTime = options.decodeCreatedTime ?? false;
+    this.cache = options.cache;
+    this.contentUrl = options.contentUrl || 'https://content.airtable.com/v0';
+    this.events = options.events;
+    this.logger = options.logger || console;
   }
 
   /**
-   * List records with pagination support
+   * List records with pagination support, optionally expanding link fields
    */
-  async select(options: ListRecordsOptions = {}): Promise<Record<T>[]> {
+  select<E extends ExpandFields<T>>(
+    options: ListRecordsOptions<T> & ExpandOptions<E>
+  ): Promise<Record<Expanded<T, E>>[]>;
+  select(options?: ListRecordsOptions<T>): Promise<Record<T>[]>;
+  async select(
+    options: ListRecordsOptions<T> &
+      Partial<ExpandOptions<ExpandFields<T>>> = {}
+  ): Promise<Record<FieldSet>[]> {
+    this.checkExpand(options);
     const allRecords: Record<T>[] = [];
-    let offset: string | undefined;
+
+    for await (const page of this.pages(options)) {
+      allRecords.push(...page.records);
+    }
+
+    return this.expand(allRecords, options);
+  }
+
+  /**
+   * Start a fluent list query, such as
+   * `table.query().select('Name').where(formula).orderBy('Name').all()`
+   */
+  query(): AirtableQuery<T> {
+    return new AirtableQuery(this);
+  }
+
+  /**
+   * Iterate over records one at a time, fetching pages as needed
+   */
+  async *iterate(
+    options: ListRecordsOptions<T> & { offset?: string } = {}
+  ): AsyncIterableIterator<Record<T>> {
+    for await (const page of this.pages(options)) {
+      yield* page.records;
+    }
+  }
+
+  /**
+   * Iterate over pages of records. Each page carries the offset needed to
+   * resume from the next page later. Breaking out of the loop stops fetching.
+   */
+  async *pages(
+    options: ListRecordsOptions<T> & { offset?: string } = {}
+  ): AsyncIterableIterator<ListRecordsResponse<T>> {
+    let offset = options.offset;
+    let remaining = options.maxRecords;
 
     do {
       const response = await this.listRecords({ ...options, offset });
-      allRecords.push(...response.records);
       offset = response.offset;
-    } while (offset);
+      this.events?.emit({
+        type: 'page',
+        table: this.tableIdOrName,
+        records: response.records.length,
+        offset,
+      });
 
-    return allRecords;
+      if (remaining !== undefined) {
+        if (response.records.length >= remaining) {
+          response.records = response.records.slice(0, remaining);
+          offset = undefined;
+          delete response.offset;
+        }
+        remaining -= response.records.length;
+      }
+
+      yield response;
+    } while (offset);
   }
 
   /**
    * List records (single page)
    */
   async listRecords(
-    options: ListRecordsOptions & { offset?: string } = {}
+    options: ListRecordsOptions<T> & { offset?: string } = {}
   ): Promise<ListRecordsResponse<T>> {
-    const params = new URLSearchParams();
+    const params = recordParams(options);
+    const url = `${this.endpoint}?${toSearchParams(params).toString()}`;
+    const usePost =
+      options.method === 'POST' ||
+      (options.method !== 'GET' && url.length > MAX_URL_LENGTH);
 
-    if (options.fields) {
-      options.fields.forEach(field => params.append('fields[]', field));
-    }
-    if (options.filterByFormula) {
-      params.append('filterByFormula', options.filterByFormula);
-    }
-    if (options.maxRecords) {
-      params.append('maxRecords', options.maxRecords.toString());
-    }
-    if (options.pageSize) {
-      params.append('pageSize', options.pageSize.toString());
-    }
-    if (options.sort) {
-      options.sort.forEach((sort, index) => {
-        params.append(`sort[${index}][field]`, sort.field);
-        params.append(`sort[${index}][direction]`, sort.direction);
-      });
-    }
-    if (options.view) {
-      params.append('view', options.view);
-    }
-    if (options.cellFormat) {
-      params.append('cellFormat', options.cellFormat);
-    }
-    if (options.timeZone) {
-      params.append('timeZone', options.timeZone);
-    }
-    if (options.userLocale) {
-      params.append('userLocale', options.userLocale);
-    }
-    if (options.returnFieldsByFieldId) {
-      params.append('returnFieldsByFieldId', 'true');
-    }
-    if (options.offset) {
-      params.append('offset', options.offset);
-    }
-
-    const url = `${this.endpoint}?${params.toString()}`;
-    return this.request<ListRecordsResponse<T>>('GET', url);
+    const response = await this.cached(
+      cacheKey('list', options),
+      options,
+      () =>
+        usePost
+          ? this.request<ListRecordsResponse<T>>(
+              'POST',
+              `${this.endpoint}/listRecords`,
+              params,
+              { ...options, idempotent: true }
+            )
+          : this.request<ListRecordsResponse<T>>('GET', url, undefined, options)
+    );
+    response.records = response.records.map(record =>
+      this.decodeRecord(record, options)
+    );
+    return response;
   }
 
   /**
-   * Get a single record by ID
+   * Get a record by ID, or several records in the order of their IDs
    */
-  async find(recordId: string): Promise<Record<T>> {
-    const url = `${this.endpoint}/${recordId}`;
-    return this.request<Record<T>>('GET', url);
+  find<E extends ExpandFields<T>>(
+    recordId: string,
+    options: FindRecordOptions & ExpandOptions<E>
+  ): Promise<Record<Expanded<T, E>>>;
+  find(recordId: string, options?: FindRecordOptions): Promise<Record<T>>;
+  find<E extends ExpandFields<T>>(
+    recordIds: string[],
+    options: FindRecordsOptions & ExpandOptions<E>
+  ): Promise<Record<Expanded<T, E>>[]>;
+  find(recordIds: string[], options?: FindRecordsOptions): Promise<Record<T>[]>;
+  async find(
+    recordIdOrIds: string | string[],
+    options: FindRecordsOptions & Partial<ExpandOptions<ExpandFields<T>>> = {}
+  ): Promise<Record<FieldSet> | Record<FieldSet>[]> {
+    this.checkExpand(options);
+    const ids = Array.isArray(recordIdOrIds) ? recordIdOrIds : [recordIdOrIds];
+
+    const records = await mapConcurrent(
+      ids,
+      options.concurrency ?? 1,
+      async recordId => {
+        const query = toSearchParams(recordParams(options)).toString();
+        const url = `${this.endpoint}/${recordId}${query ? `?${query}` : ''}`;
+        const record = await this.cached(
+          cacheKey(`find:${recordId}`, options),
+          options,
+          () => this.request<Record<T>>('GET', url, undefined, options)
+        );
+        return this.decodeRecord(record, options);
+      }
+    );
+
+    const expanded = await this.expand(records, options);
+    return Array.isArray(recordIdOrIds) ? expanded : expanded[0];
   }
 
   /**
@@ -121,41 +270,39 @@ export class AirtableTable<T extends FieldSet = FieldSet> {
       );
     }
 
-    const body: any = { records };
+    const body: any = { records: this.encodeRecords(records) };
     if (options.typecast) {
       body.typecast = true;
     }
 
-    const response = await this.request<{ records: Record<T>[] }>(
+    const response = await this.write<{ records: Record<T>[] }>(
       'POST',
       this.endpoint,
-      body
+      body,
+      options
     );
-    return response.records;
+    return response.records.map(record => this.decodeRecord(record));
   }
 
   /**
    * Create records in batches (handles any number of records)
    */
+  createBatch(
+    records: RecordData<T>[],
+    options: CreateRecordsOptions & BatchOptions & { returnResult: true }
+  ): Promise<BatchResult<RecordData<T>, Record<T>>>;
+  createBatch(
+    records: RecordData<T>[],
+    options?: CreateRecordsOptions & BatchOptions & { returnResult?: false }
+  ): Promise<Record<T>[]>;
   async createBatch(
     records: RecordData<T>[],
-    options: CreateRecordsOptions = {}
-  ): Promise<Record<T>[]> {
-    const results: Record<T>[] = [];
-    const batchSize = 10;
-
-    for (let i = 0; i < records.length; i += batchSize) {
-      const batch = records.slice(i, i + batchSize);
-      const batchResults = await this.createRecords(batch, options);
-      results.push(...batchResults);
-
-      // Rate limiting: wait between batches
-      if (i + batchSize < records.length) {
-        await this.sleep(200); // 5 requests per second
-      }
-    }
-
-    return results;
+    options: CreateRecordsOptions & BatchOptions = {}
+  ): Promise<Record<T>[] | BatchResult<RecordData<T>, Record<T>>> {
+    this.validateRecords(records);
+    return this.batch(records, options, batch =>
+      this.createRecords(batch, options)
+    );
   }
 
   /**
@@ -163,7 +310,7 @@ export class AirtableTable<T extends FieldSet = FieldSet> {
    */
   async update(
     recordId: string,
-    fields: Partial<T>,
+    fields: Partial<WritableFields<T>>,
     options: UpdateRecordsOptions = {}
   ): Promise<Record<T>> {
     const records = await this.updateRecords(
@@ -177,7 +324,7 @@ export class AirtableTable<T extends FieldSet = FieldSet> {
    * Update multiple records (up to 10 at a time)
    */
   async updateRecords(
-    records: Array<{ id: string; fields: Partial<T> }>,
+    records: Array<RecordUpdate<T>>,
     options: UpdateRecordsOptions = {}
   ): Promise<Record<T>[]> {
     if (records.length > 10) {
@@ -186,37 +333,99 @@ export class AirtableTable<T extends FieldSet = FieldSet> {
       );
     }
 
-    const body: any = { records };
+    const body: any = { records: this.encodeRecords(records) };
     if (options.typecast) {
       body.typecast = true;
     }
 
-    const response = await this.request<{ records: Record<T>[] }>(
+    const response = await this.write<{ records: Record<T>[] }>(
       'PATCH',
       this.endpoint,
-      body
+      body,
+      options
     );
-    return response.records;
+    return response.records.map(record => this.decodeRecord(record));
   }
 
   /**
    * Update records in batches (handles any number of records)
    */
+  updateBatch(
+    records: Array<RecordUpdate<T>>,
+    options: UpdateRecordsOptions & BatchOptions & { returnResult: true }
+  ): Promise<BatchResult<RecordUpdate<T>, Record<T>>>;
+  updateBatch(
+    records: Array<RecordUpdate<T>>,
+    options?: UpdateRecordsOptions & BatchOptions & { returnResult?: false }
+  ): Promise<Record<T>[]>;
   async updateBatch(
-    records: Array<{ id: string; fields: Partial<T> }>,
-    options: UpdateRecordsOptions = {}
-  ): Promise<Record<T>[]> {
-    const results: Record<T>[] = [];
+    records: Array<RecordUpdate<T>>,
+    options: UpdateRecordsOptions & BatchOptions = {}
+  ): Promise<Record<T>[] | BatchResult<RecordUpdate<T>, Record<T>>> {
+    this.validateRecords(records);
+    return this.batch(records, options, batch =>
+      this.updateRecords(batch, options)
+    );
+  }
+
+  /**
+   * Create or update up to 10 records, matching existing records on
+   * `fieldsToMergeOn` instead of record IDs
+   */
+  async upsert(
+    records: Array<{ id?: string; fields: Partial<WritableFields<T>> }>,
+    options: UpsertRecordsOptions<T>
+  ): Promise<UpsertRecordsResponse<T>> {
+    if (records.length > 10) {
+      throw new AirtableError(
+        'Cannot upsert more than 10 records at once. Use upsertBatch() for larger operations.'
+      );
+    }
+
+    const body: any = {
+      records: this.encodeRecords(records),
+      performUpsert: { fieldsToMergeOn: options.fieldsToMergeOn },
+    };
+    if (options.typecast) {
+      body.typecast = true;
+    }
+
+    const response = await this.write<UpsertRecordsResponse<T>>(
+      'PATCH',
+      this.endpoint,
+      body,
+      options
+    );
+    return {
+      records: response.records.map(record => this.decodeRecord(record)),
+      createdRecords: response.createdRecords || [],
+      updatedRecords: response.updatedRecords || [],
+    };
+  }
+
+  /**
+   * Upsert records in batches (handles any number of records)
+   */
+  async upsertBatch(
+    records: Array<{ id?: string; fields: Partial<WritableFields<T>> }>,
+    options: UpsertRecordsOptions<T>
+  ): Promise<UpsertRecordsResponse<T>> {
+    this.validateRecords(records);
+    const results: UpsertRecordsResponse<T> = {
+      records: [],
+      createdRecords: [],
+      updatedRecords: [],
+    };
     const batchSize = 10;
 
     for (let i = 0; i < records.length; i += batchSize) {
       const batch = records.slice(i, i + batchSize);
-      const batchResults = await this.updateRecords(batch, options);
-      results.push(...batchResults);
-
-      if (i + batchSize < records.length) {
-        await this.sleep(200);
-      }
+      const response = await this.chunk(batch.length, () =>
+        this.upsert(batch, options)
+      );
+      results.records.push(...response.records);
+      results.createdRecords.push(...response.createdRecords);
+      results.updatedRecords.push(...response.updatedRecords);
     }
 
     return results;
@@ -225,23 +434,36 @@ export class AirtableTable<T extends FieldSet = FieldSet> {
   /**
    * Replace a single record (PUT)
    */
-  async replace(recordId: string, fields: T): Promise<Record<T>> {
+  async replace(
+    recordId: string,
+    fields: WritableFields<T>,
+    options: RequestOptions = {}
+  ): Promise<Record<T>> {
     const url = `${this.endpoint}/${recordId}`;
-    return this.request<Record<T>>('PUT', url, { fields });
+    const [record] = this.encodeRecords([{ fields }]);
+    return this.decodeRecord(
+      await this.write<Record<T>>('PUT', url, record, options)
+    );
   }
 
   /**
    * Delete a single record
    */
-  async delete(recordId: string): Promise<{ id: string; deleted: boolean }> {
-    const response = await this.deleteRecords([recordId]);
+  async delete(
+    recordId: string,
+    options: RequestOptions = {}
+  ): Promise<DeletedRecord> {
+    const response = await this.deleteRecords([recordId], options);
     return response.records[0];
   }
 
   /**
    * Delete multiple records (up to 10 at a time)
    */
-  async deleteRecords(recordIds: string[]): Promise<DeleteRecordsResponse> {
+  async deleteRecords(
+    recordIds: string[],
+    options: RequestOptions = {}
+  ): Promise<DeleteRecordsResponse> {
     if (recordIds.length > 10) {
       throw new AirtableError(
         'Cannot delete more than 10 records at once. Use deleteBatch() for larger operations.'
@@ -252,77 +474,710 @@ export class AirtableTable<T extends FieldSet = FieldSet> {
     recordIds.forEach(id => params.append('records[]', id));
 
     const url = `${this.endpoint}?${params.toString()}`;
-    return this.request<DeleteRecordsResponse>('DELETE', url);
+    return this.write<DeleteRecordsResponse>('DELETE', url, undefined, options);
   }
 
   /**
    * Delete records in batches (handles any number of records)
    */
+  deleteBatch(
+    recordIds: string[],
+    options: BatchOptions & { returnResult: true }
+  ): Promise<BatchResult<string, DeletedRecord>>;
+  deleteBatch(
+    recordIds: string[],
+    options?: BatchOptions & { returnResult?: false }
+  ): Promise<DeletedRecord[]>;
   async deleteBatch(
-    recordIds: string[]
-  ): Promise<Array<{ id: string; deleted: boolean }>> {
-    const results: Array<{ id: string; deleted: boolean }> = [];
-    const batchSize = 10;
+    recordIds: string[],
+    options: BatchOptions = {}
+  ): Promise<DeletedRecord[] | BatchResult<string, DeletedRecord>> {
+    return this.batch(recordIds, options, async batch => {
+      const response = await this.deleteRecords(batch, options);
+      return response.records;
+    });
+  }
 
-    for (let i = 0; i < recordIds.length; i += batchSize) {
-      const batch = recordIds.slice(i, i + batchSize);
-      const response = await this.deleteRecords(batch);
-      results.push(...response.records);
+  /**
+   * Make the table match a local dataset: records are matched on
+   * `keyFields`, changed ones updated, new ones created and, with
+   * `deleteMissing`, records missing locally deleted. With `dryRun` the plan
+   * is returned without writing anything.
+   */
+  async sync(
+    localRecords: Array<WritableFields<T>>,
+    options: SyncOptions<T>
+  ): Promise<SyncResult<T>> {
+    const { signal, timeoutMs, typecast, concurrency } = options;
+    const fields = new Set<string>(options.keyFields);
+    (options.compareFields || localRecords.flatMap(Object.keys)).forEach(
+      field => fields.add(field)
+    );
 
-      if (i + batchSize < recordIds.length) {
-        await this.sleep(200);
-      }
+    const existing = await this.select({
+      fields: [...fields],
+      signal,
+      timeoutMs,
+      cache: 'no-store',
+    });
+    const plan = planSync(existing, localRecords, options);
+    const result: SyncResult<T> = {
+      plan,
+      dryRun: !!options.dryRun,
+      created: [],
+      updated: [],
+      deleted: [],
+      failed: [],
+      summary: {
+        created: plan.creates.length,
+        updated: plan.updates.length,
+        deleted: plan.deletes.length,
+        unchanged: plan.unchanged,
+        failed: 0,
+      },
+    };
+    if (options.dryRun) {
+      return result;
     }
 
-    return results;
+    const batchOptions = {
+      signal,
+      timeoutMs,
+      typecast,
+      concurrency,
+      returnResult: true as const,
+      continueOnError: true,
+    };
+    const created = await this.createBatch(plan.creates, batchOptions);
+    const updated = await this.updateBatch(plan.updates, batchOptions);
+    const deleted = await this.deleteBatch(
+      plan.deletes.map(record => record.id),
+      batchOptions
+    );
+
+    result.created = created.succeeded;
+    result.updated = updated.succeeded;
+    result.deleted = deleted.succeeded.map(record => record.id);
+    result.failed = [...created.failed, ...updated.failed, ...deleted.failed];
+    result.summary = {
+      created: result.created.length,
+      updated: result.updated.length,
+      deleted: result.deleted.length,
+      unchanged: plan.unchanged,
+      failed: result.failed.reduce(
+        (count, failure) => count + failure.input.length,
+        0
+      ),
+    };
+    return result;
   }
 
   /**
-   * Make HTTP request with error handling
+   * Write the table's records to a stream as CSV or NDJSON, one page at a
+   * time. CSV columns are the requested `fields`, or those of the first page.
+   * Returns the number of records written.
    */
-  private async request<R>(
-    method: string,
-    url: string,
-    body?: any
-  ): Promise<R> {
-    const options: RequestInit = {
-      method,
-      headers: {
-        Authorization: `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
+  async exportTo(
+    destination: ExportDestination,
+    options: ExportOptions<T>
+  ): Promise<number> {
+    const { format, includeId, ...listOptions } = options;
+    const pages = this.pages(listOptions);
+    const encoder = new TextEncoder();
+    let columns = options.fields;
+    let header = format === 'csv';
+    let count = 0;
+
+    const body = new ReadableStream<Uint8Array>({
+      pull: async controller => {
+        const { done, value: page } = await pages.next();
+        const records = done ? [] : page.records;
+
+        let text = '';
+        if (header) {
+          if (!columns) {
+            const names = new Set<string>();
+            records.forEach(record =>
+              Object.keys(record.fields).forEach(name => names.add(name))
+            );
+            columns = [...names];
+          }
+          text += csvLine(includeId ? ['id', ...columns] : columns);
+          header = false;
+        }
+        for (const record of records) {
+          text += formatRecord(record, format, columns || [], includeId);
+        }
+        count += records.length;
+
+        if (text) {
+          controller.enqueue(encoder.encode(text));
+        }
+        if (done) {
+          controller.close();
+        }
+      },
+      cancel: async () => {
+        await pages.return?.(undefined);
       },
+    });
+
+    await writeToDestination(body, destination, options.signal);
+    return count;
+  }
+
+  /**
+   * Create records from CSV (with a header line) or NDJSON, or upsert them
+   * with `fieldsToMergeOn`. Rows that cannot be converted or written are
+   * reported with their line numbers instead of stopping the import.
+   */
+  async importFrom(
+    source: ImportSource,
+    options: ImportOptions<T>
+  ): Promise<ImportResult<T>> {
+    const { signal, timeoutMs, typecast, fieldsToMergeOn } = options;
+    const batchSize = options.batchSize ?? 100;
+    const result: ImportResult<T> = { rows: 0, records: [], failed: [] };
+    let pending: ImportRow[] = [];
+
+    const write = async (rows: ImportRow[]) => {
+      const records = rows.map(row => ({
+        fields: row.fields as WritableFields<T>,
+      }));
+      if (fieldsToMergeOn) {
+        const response = await this.upsert(records, {
+          fieldsToMergeOn,
+          typecast,
+          signal,
+          timeoutMs,
+        });
+        return response.records;
+      }
+      return this.createRecords(records, { typecast, signal, timeoutMs });
+    };
+
+    const flush = async () => {
+      const rows = pending;
+      pending = [];
+      const batch = (await this.batch(
+        rows,
+        {
+          signal,
+          timeoutMs,
+          concurrency: options.concurrency,
+          returnResult: true,
+          continueOnError: true,
+        },
+        write
+      )) as BatchResult<ImportRow, Record<T>>;
+
+      result.records.push(...batch.succeeded);
+      for (const failure of batch.failed) {
+        if (failure.error instanceof AbortError) {
+          throw failure.error;
+        }
+        // Airtable rejects a whole chunk for one invalid record, so send its
+        // rows one at a time to find the ones that fail
+        const retry =
+          failure.error instanceof ValidationError && failure.input.length > 1;
+        for (const input of failure.input) {
+          const { line, row } = input;
+          if (!retry) {
+            result.failed.push({ line, row, error: failure.error });
+            continue;
+          }
+          try {
+            result.records.push(...(await this.chunk(1, () => write([input]))));
+          } catch (error) {
+            if (
+              !(error instanceof AirtableError) ||
+              error instanceof AbortError
+            ) {
+              throw error;
+            }
+            result.failed.push({ line, row, error });
+          }
+        }
+      }
     };
 
-    if (body) {
-      options.body = JSON.stringify(body);
+    for await (const parsed of parseRows(source, options.format)) {
+      result.rows++;
+      if (parsed.error) {
+        result.failed.push({ ...parsed, error: parsed.error });
+        continue;
+      }
+
+      try {
+        const fields = mapRow(parsed.row, options.mapping);
+        this.validateRecords([{ fields }]);
+        pending.push({ ...parsed, fields });
+      } catch (error) {
+        result.failed.push({
+          line: parsed.line,
+          row: parsed.row,
+          error:
+            error instanceof AirtableError
+              ? error
+              : new AirtableError(
+                  (error as Error).message,
+                  undefined,
+                  'INVALID_IMPORT_VALUE'
+                ),
+        });
+      }
+
+      if (pending.length >= batchSize) {
+        await flush();
+      }
     }
+    if (pending.length > 0) {
+      await flush();
+    }
+
+    result.failed.sort((a, b) => a.line - b.line);
+    return result;
+  }
 
-    const response = await fetch(url, options);
+  /**
+   * Comments on a record
+   */
+  comments(recordId: string): RecordComments {
+    return new RecordComments(
+      `${this.endpoint}/${recordId}/comments`,
+      this.http
+    );
+  }
 
-    if (!response.ok) {
-      const errorData: any = await response.json().catch(() => ({}));
+  /**
+   * Upload a file of up to 5 MB to an attachment field of a record
+   */
+  async uploadAttachment(
+    recordId: string,
+    fieldIdOrName: string,
+    file: UploadAttachmentInput,
+    options: RequestOptions = {}
+  ): Promise<UploadAttachmentResponse> {
+    const data = await readAttachmentData(file.data, file.filename);
+    const url = `${this.contentUrl}/${this.baseId}/${recordId}/${encodeURIComponent(
+      fieldIdOrName
+    )}/uploadAttachment`;
 
-      if (response.status === 429) {
-        throw new RateLimitError(
-          errorData.error?.message || 'Rate limit exceeded'
+    return this.write<UploadAttachmentResponse>(
+      'POST',
+      url,
+      {
+        contentType: file.contentType,
+        filename: file.filename,
+        file: Buffer.from(data).toString('base64'),
+      },
+      options
+    );
+  }
+
+  /**
+   * Stream an attachment, or one of its thumbnails, to a writable. Signed
+   * attachment URLs expire after a few hours; an expired URL is refreshed by
+   * fetching the record again. Returns the attachment as downloaded.
+   */
+  async downloadAttachment(
+    recordId: string,
+    fieldName: string,
+    attachment: Attachment,
+    destination: AttachmentDestination,
+    options: DownloadAttachmentOptions = {}
+  ): Promise<Attachment> {
+    let current = attachment;
+    let response = await this.http.fetchExternal(
+      this.attachmentUrl(current, options),
+      options.signal
+    );
+
+    if (response.status === 403 || response.status === 410) {
+      await response.body?.cancel();
+      this.logger.warn(
+        `Signed URL of attachment ${attachment.id} has expired, refreshing it from record ${recordId}`
+      );
+      const record = await this.find(recordId, {
+        signal: options.signal,
+        cache: 'no-store',
+      });
+      const attachments = (record.fields as FieldSet)[fieldName];
+      const refreshed = Array.isArray(attachments)
+        ? (attachments as Attachment[]).find(a => a.id === attachment.id)
+        : undefined;
+      if (!refreshed) {
+        throw new NotFoundError(
+          `Attachment ${attachment.id} not found in field "${fieldName}" of record ${recordId}`,
+          'ATTACHMENT_NOT_FOUND'
         );
       }
 
+      current = refreshed;
+      response = await this.http.fetchExternal(
+        this.attachmentUrl(current, options),
+        options.signal
+      );
+    }
+
+    if (!response.ok || !response.body) {
+      await response.body?.cancel();
       throw new AirtableError(
-        errorData.error?.message ||
-          `Request failed with status ${response.status}`,
+        `Attachment download failed with status ${response.status}`,
         response.status,
-        errorData.error?.type
+        'ATTACHMENT_DOWNLOAD_FAILED'
       );
     }
 
-    return response.json() as Promise<R>;
+    await writeToDestination(response.body, destination, options.signal);
+    return current;
   }
 
   /**
-   * Sleep utility for rate limiting
+   * Get the schema of this table
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  async getSchema(options: RequestOptions = {}): Promise<TableSchema> {
+    const schema = await this.request<BaseSchema>(
+      'GET',
+      `${this.baseUrl}/meta/bases/${this.baseId}/tables`,
+      undefined,
+      options
+    );
+    const table = schema.tables.find(
+      t => t.id === this.tableIdOrName || t.name === this.tableIdOrName
+    );
+
+    if (!table) {
+      throw new NotFoundError(
+        `Table "${this.tableIdOrName}" not found in base ${this.baseId}`,
+        'TABLE_NOT_FOUND',
+        'table'
+      );
+    }
+    return table;
+  }
+
+  /**
+   * Update the name or description of this table
+   */
+  async updateTable(
+    updates: UpdateTableInput,
+    options: RequestOptions = {}
+  ): Promise<TableSchema> {
+    return this.write<TableSchema>(
+      'PATCH',
+      this.metaEndpoint(),
+      updates,
+      options
+    );
+  }
+
+  /**
+   * Add a field to this table
+   */
+  async createField(
+    field: FieldInput,
+    options: RequestOptions = {}
+  ): Promise<FieldSchema> {
+    const tableId = await this.resolveTableId(options);
+    return this.write<FieldSchema>(
+      'POST',
+      `${this.metaEndpoint(tableId)}/fields`,
+      field,
+      options
+    );
+  }
+
+  /**
+   * Update the name or description of a field
+   */
+  async updateField(
+    fieldIdOrName: string,
+    updates: UpdateFieldInput,
+    options: RequestOptions = {}
+  ): Promise<FieldSchema> {
+    let tableId = this.tableIdOrName;
+    let fieldId = fieldIdOrName;
+
+    // The field endpoints only accept IDs, so look names up in the schema
+    if (!this.isTableId() || !fieldIdOrName.startsWith('fld')) {
+      const schema = await this.getSchema(options);
+      const field = schema.fields.find(
+        f => f.id === fieldIdOrName || f.name === fieldIdOrName
+      );
+      if (!field) {
+        throw new NotFoundError(
+          `Field "${fieldIdOrName}" not found in table ${schema.name}`,
+          'FIELD_NOT_FOUND',
+          'field'
+        );
+      }
+      tableId = schema.id;
+      fieldId = field.id;
+    }
+
+    return this.write<FieldSchema>(
+      'PATCH',
+      `${this.metaEndpoint(tableId)}/fields/${fieldId}`,
+      updates,
+      options
+    );
+  }
+
+  private attachmentUrl(
+    attachment: Attachment,
+    options: DownloadAttachmentOptions
+  ): string {
+    if (!options.thumbnail) {
+      return attachment.url;
+    }
+
+    const thumbnail = attachment.thumbnails?.[options.thumbnail];
+    if (!thumbnail) {
+      throw new AirtableError(
+        `Attachment ${attachment.id} has no ${options.thumbnail} thumbnail`,
+        undefined,
+        'THUMBNAIL_NOT_FOUND'
+      );
+    }
+    return thumbnail.url;
+  }
+
+  private isTableId(): boolean {
+    return this.tableIdOrName.startsWith('tbl');
+  }
+
+  private async resolveTableId(options: RequestOptions): Promise<string> {
+    return this.isTableId()
+      ? this.tableIdOrName
+      : (await this.getSchema(options)).id;
+  }
+
+  private metaEndpoint(tableIdOrName: string = this.tableIdOrName): string {
+    return `${this.baseUrl}/meta/bases/${this.baseId}/tables/${encodeURIComponent(
+      tableIdOrName
+    )}`;
+  }
+
+  /**
+   * Fail before fetching when `expand` nests deeper than `expandDepth`
+   */
+  private checkExpand(options: Partial<ExpandOptions<ExpandFields<T>>>): void {
+    if (options.expand) {
+      checkExpandDepth(
+        options.expand,
+        options.expandDepth ?? DEFAULT_EXPAND_DEPTH
+      );
+    }
+  }
+
+  /**
+   * Expand the link fields named in `options.expand`, if any
+   */
+  private async expand(
+    records: Record<T>[],
+    options: Partial<ExpandOptions<ExpandFields<T>>> & ReadOptions
+  ): Promise<Record<T>[]> {
+    if (!options.expand) {
+      return records;
+    }
+    return expandRecords(
+      records,
+      options.expand,
+      options.expandDepth ?? DEFAULT_EXPAND_DEPTH,
+      options
+    );
+  }
+
+  /**
+   * Convert raw field values with the table's codecs, and `createdTime` to
+   * `createdAt` when enabled. Values read with `cellFormat: 'string'` are
+   * display text and are left as they are.
+   */
+  private decodeRecord(
+    record: Record<T>,
+    options: CellFormatOptions = {}
+  ): Record<T> {
+    if (this.decodeCreatedTime && record.createdTime) {
+      record = { ...record, createdAt: new Date(record.createdTime) };
+    }
+    if (!this.codecs || options.cellFormat === 'string') {
+      return record;
+    }
+
+    const fields: FieldSet = { ...record.fields };
+    for (const [name, codec] of Object.entries(this.codecs)) {
+      if (fields[name] !== undefined && fields[name] !== null) {
+        fields[name] = codec.decode(fields[name]);
+      }
+    }
+    return { ...record, fields: fields as T };
+  }
+
+  /**
+   * Check outgoing field values against the table's codecs, so invalid
+   * values fail locally instead of in the middle of a batch
+   */
+  private validateRecords(records: Array<{ fields: object }>): void {
+    const codecs = this.codecs;
+    if (!codecs) {
+      return;
+    }
+
+    records.forEach((record, index) => {
+      for (const [name, value] of Object.entries(record.fields)) {
+        const codec = codecs[name];
+        if (!codec || value === undefined || value === null) {
+          continue;
+        }
+
+        const problem = codec.validate?.(value);
+        if (problem) {
+          throw new FieldValidationError(
+            `Invalid value for field "${name}" in record ${index}: ${problem}`,
+            name,
+            value,
+            index
+          );
+        }
+      }
+    });
+  }
+
+  /**
+   * Validate outgoing field values and convert them with the table's codecs
+   */
+  private encodeRecords<R extends { fields: object }>(records: R[]): R[] {
+    const codecs = this.codecs;
+    if (!codecs) {
+      return records;
+    }
+
+    this.validateRecords(records);
+    return records.map(record => {
+      const fields: FieldSet = { ...record.fields };
+      for (const [name, value] of Object.entries(fields)) {
+        if (codecs[name] && value !== undefined && value !== null) {
+          fields[name] = codecs[name].encode(value);
+        }
+      }
+      return { ...record, fields };
+    });
+  }
+
+  /**
+   * Run a batch, throwing the first chunk error unless `returnResult` is set
+   */
+  private async batch<I, R>(
+    items: I[],
+    options: BatchOptions,
+    send: (chunk: I[]) => Promise<R[]>
+  ): Promise<R[] | BatchResult<I, R>> {
+    const sendChunk = (chunk: I[]) =>
+      this.chunk(chunk.length, () => send(chunk));
+    if (options.returnResult) {
+      return runBatch(items, options, sendChunk);
+    }
+
+    const result = await runBatch(
+      items,
+      { ...options, continueOnError: false },
+      sendChunk
+    );
+    if (result.failed.length > 0) {
+      throw result.failed[0].error;
+    }
+    return result.succeeded;
+  }
+
+  /**
+   * Send one chunk of a batch operation, reporting its outcome
+   */
+  private async chunk<R>(records: number, send: () => Promise<R>): Promise<R> {
+    const startedAt = Date.now();
+    const emit = (error?: AirtableError) =>
+      this.events?.emit({
+        type: 'batchChunk',
+        table: this.tableIdOrName,
+        records,
+        durationMs: Date.now() - startedAt,
+        error,
+      });
+
+    try {
+      const result = await send();
+      emit();
+      return result;
+    } catch (error) {
+      emit(error instanceof AirtableError ? error : undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Serve a read from the client's cache when one is configured. Cache hits
+   * still fail with `AbortError` once the signal is aborted.
+   */
+  private async cached<R>(
+    key: string,
+    options: ReadOptions,
+    load: () => Promise<R>
+  ): Promise<R> {
+    if (!this.cache) {
+      return load();
+    }
+
+    const checkSignal = () => {
+      if (options.signal?.aborted) {
+        throw new AbortError();
+      }
+    };
+    checkSignal();
+    const value = await this.cache.read(
+      this.cacheScope(),
+      `${this.tableIdOrName}:${key}`,
+      load,
+      options.cache
+    );
+    checkSignal();
+    return value;
+  }
+
+  /**
+   * Send a request that changes records or the table schema, then drop the
+   * base's cached reads. The cache is also cleared on failure, since the
+   * write may have applied.
+   */
+  private async write<R>(
+    method: string,
+    url: string,
+    body: any,
+    options: RequestOptions
+  ): Promise<R> {
+    try {
+      return await this.request<R>(method, url, body, options);
+    } finally {
+      await this.cache?.invalidate(this.cacheScope());
+    }
+  }
+
+  /**
+   * Reads are invalidated per base: a table may be opened by name or by ID,
+   * and expanded reads include records of linked tables
+   */
+  private cacheScope(): string {
+    return this.baseId;
+  }
+
+  /**
+   * Make HTTP request with error handling
+   */
+  private request<R>(
+    method: string,
+    url: string,
+    body?: any,
+    options: HttpRequestOptions = {}
+  ): Promise<R> {
+    return this.http.request<R>(method, url, body, options);
   }
 }
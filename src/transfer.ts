@@ -0,0 +1,340 @@
+import { readStream } from './attachments';
+import { AirtableError } from './errors';
+import {
+  ColumnMapping,
+  ColumnType,
+  FieldSet,
+  ImportSource,
+  Record,
+  TransferFormat,
+} from './types';
+
+/**
+ * A parsed row, or the error that prevented parsing it
+ */
+export interface ParsedRow {
+  line: number;
+  row: { [column: string]: unknown };
+  error?: AirtableError;
+}
+
+/**
+ * A parsed row and the record fields mapped from it
+ */
+export interface ImportRow extends ParsedRow {
+  fields: FieldSet;
+}
+
+/**
+ * Serialize a record as a line of CSV or NDJSON, ending with a newline
+ */
+export function formatRecord(
+  record: Record<FieldSet>,
+  format: TransferFormat,
+  columns: string[],
+  includeId = false
+): string {
+  if (format === 'ndjson') {
+    return `${JSON.stringify(record)}\n`;
+  }
+  const values = columns.map(column => csvValue(record.fields[column]));
+  return csvLine(includeId ? [record.id, ...values] : values);
+}
+
+/**
+ * Quote values as needed and join them into a CSV line
+ */
+export function csvLine(values: string[]): string {
+  return `${values
+    .map(value =>
+      /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+    )
+    .join(',')}\r\n`;
+}
+
+/**
+ * Flatten a cell value to text: attachments by URL, collaborators by email,
+ * and arrays as comma-separated lists
+ */
+function csvValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(csvValue).join(', ');
+  }
+  if (typeof value === 'object') {
+    const object = value as { [key: string]: unknown };
+    for (const key of ['url', 'email', 'text', 'name']) {
+      if (typeof object[key] === 'string') {
+        return object[key] as string;
+      }
+    }
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Parse rows from CSV with a header line, or from NDJSON. NDJSON lines may
+ * be plain objects or records with a `fields` property.
+ */
+export async function* parseRows(
+  source: ImportSource,
+  format: TransferFormat
+): AsyncIterableIterator<ParsedRow> {
+  if (format === 'ndjson') {
+    yield* parseNdjson(readText(source));
+    return;
+  }
+
+  let header: string[] | undefined;
+  for await (const { line, values } of parseCsv(readText(source))) {
+    if (!header) {
+      header = values.map((name, i) =>
+        i === 0 ? name.replace(/^\uFEFF/, '') : name
+      );
+      continue;
+    }
+
+    const row: { [column: string]: unknown } = {};
+    header.forEach((column, i) => {
+      row[column] = values[i] ?? '';
+    });
+    yield { line, row };
+  }
+}
+
+/**
+ * Build record fields from a row, converting values as mapped. Empty values
+ * are left out.
+ */
+export function mapRow(
+  row: { [column: string]: unknown },
+  mapping?: { [field: string]: string | ColumnMapping | undefined }
+): FieldSet {
+  const fields: FieldSet = {};
+  const entries = mapping
+    ? Object.entries(mapping)
+    : Object.keys(row).map(column => [column, column] as const);
+
+  for (const [field, source] of entries) {
+    if (source === undefined) {
+      continue;
+    }
+    const column =
+      typeof source === 'string' ? source : (source.column ?? field);
+    const value = row[column];
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+
+    if (typeof source === 'string') {
+      fields[field] = value;
+    } else if (source.parse) {
+      fields[field] = source.parse(value);
+    } else {
+      fields[field] = convert(value, source.type || 'string', column);
+    }
+  }
+
+  return fields;
+}
+
+function convert(value: unknown, type: ColumnType, column: string): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const invalid = (expected: string) =>
+    new AirtableError(
+      `Column "${column}" value "${value}" is not ${expected}`,
+      undefined,
+      'INVALID_IMPORT_VALUE'
+    );
+
+  switch (type) {
+    case 'number': {
+      const number = Number(value.trim());
+      if (value.trim() === '' || Number.isNaN(number)) {
+        throw invalid('a number');
+      }
+      return number;
+    }
+    case 'boolean': {
+      const text = value.trim().toLowerCase();
+      if (['true', 'yes', '1', 'x', 'checked'].includes(text)) {
+        return true;
+      }
+      if (['false', 'no', '0', ''].includes(text)) {
+        return false;
+      }
+      throw invalid('a boolean');
+    }
+    case 'date': {
+      const text = value.trim();
+      if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+        return text;
+      }
+      const date = new Date(text);
+      if (Number.isNaN(date.getTime())) {
+        throw invalid('a date');
+      }
+      return date.toISOString();
+    }
+    case 'array':
+      return value
+        .split(',')
+        .map(item => item.trim())
+        .filter(Boolean);
+    case 'json':
+      try {
+        return JSON.parse(value);
+      } catch {
+        throw invalid('valid JSON');
+      }
+    default:
+      return value;
+  }
+}
+
+async function* parseNdjson(
+  chunks: AsyncIterable<string>
+): AsyncIterableIterator<ParsedRow> {
+  let buffer = '';
+  let line = 0;
+
+  const parse = (text: string): ParsedRow | undefined => {
+    line++;
+    if (text.trim() === '') {
+      return undefined;
+    }
+    try {
+      const value = JSON.parse(text);
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new SyntaxError('Expected an object');
+      }
+      const fields = value.fields;
+      return {
+        line,
+        row: typeof fields === 'object' && fields !== null ? fields : value,
+      };
+    } catch (error) {
+      return {
+        line,
+        row: {},
+        error: new AirtableError(
+          `Invalid JSON on line ${line}: ${(error as Error).message}`,
+          undefined,
+          'INVALID_IMPORT_ROW'
+        ),
+      };
+    }
+  };
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    const lines = buffer.split('\n');
+    buffer = lines.pop()!;
+    for (const text of lines) {
+      const row = parse(text);
+      if (row) {
+        yield row;
+      }
+    }
+  }
+  const row = parse(buffer);
+  if (row) {
+    yield row;
+  }
+}
+
+/**
+ * Split CSV text into rows, following RFC 4180 quoting. Quoted values may
+ * span lines and chunks.
+ */
+async function* parseCsv(
+  chunks: AsyncIterable<string>
+): AsyncIterableIterator<{ line: number; values: string[] }> {
+  let values: string[] = [];
+  let value = '';
+  let quoted = false;
+  let afterQuote = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for await (const chunk of chunks) {
+    for (const char of chunk) {
+      if (quoted && !afterQuote) {
+        if (char === '"') {
+          afterQuote = true;
+        } else {
+          value += char;
+          if (char === '\n') {
+            line++;
+          }
+        }
+        continue;
+      }
+      if (afterQuote) {
+        afterQuote = false;
+        if (char === '"') {
+          value += '"';
+          continue;
+        }
+        quoted = false;
+      }
+
+      if (char === '"' && value === '') {
+        quoted = true;
+      } else if (char === ',') {
+        values.push(value);
+        value = '';
+      } else if (char === '\n') {
+        values.push(value);
+        if (values.length > 1 || values[0] !== '') {
+          yield { line: rowLine, values };
+        }
+        values = [];
+        value = '';
+        rowLine = ++line;
+      } else if (char !== '\r') {
+        value += char;
+      }
+    }
+  }
+
+  if (quoted && !afterQuote) {
+    throw new AirtableError(
+      `Unterminated quoted value starting on line ${rowLine}`,
+      undefined,
+      'INVALID_IMPORT_ROW'
+    );
+  }
+  if (value !== '' || values.length > 0) {
+    values.push(value);
+    yield { line: rowLine, values };
+  }
+}
+
+async function* readText(source: ImportSource): AsyncIterableIterator<string> {
+  if (typeof source === 'string') {
+    yield source;
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  const chunks = 'getReader' in source ? readStream(source) : source;
+  for await (const chunk of chunks) {
+    yield typeof chunk === 'string'
+      ? chunk
+      : decoder.decode(chunk, { stream: true });
+  }
+  const rest = decoder.decode();
+  if (rest) {
+    yield rest;
+  }
+}
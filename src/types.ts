@@ -1,35 +1,403 @@
+import { ResponseCache } from './cache';
+import { AirtableEvents } from './events';
+import { AirtableError } from './errors';
+import { FieldName, Formula } from './formula';
+import { RateLimiter } from './rate-limiter';
+
 export interface AirtableConfig {
-  apiKey: string;
+  /** Personal access token, or use `credentials` */
+  apiKey?: string;
+  /** Supplies the token for each request, e.g. to rotate tokens or use OAuth */
+  credentials?: CredentialProvider;
   baseUrl?: string;
+  /** Base URL for attachment uploads (default: https://content.airtable.com/v0) */
+  contentUrl?: string;
+  /** Retry policy for failed requests, or `false` to disable retries */
+  retry?: RetryOptions | false;
+  /** Per-base request throttling, or `false` to disable it */
+  rateLimit?: RateLimitOptions | false;
+  /** Fetch implementation used for requests (default: global fetch) */
+  fetch?: FetchFunction;
+  /** Middleware applied to every request, outermost first */
+  middleware?: Middleware[];
+  /** Default timeout for each HTTP attempt in milliseconds (default: none) */
+  timeoutMs?: number;
+  /** Cache record reads, invalidated by writes through this client */
+  cache?: CacheOptions;
+  /** Receives log messages, with the API key redacted (default: warnings only, to the console) */
+  logger?: Logger;
+  /** Wraps each API call in a span, e.g. an OpenTelemetry tracer */
+  tracer?: Tracer;
+}
+
+/**
+ * Supplies access tokens, asked for one before every request
+ */
+export interface Credentials {
+  getToken(): Promise<string> | string;
+  /**
+   * Called when Airtable rejects `token` with a 401. Return a new token to
+   * send the request once more, or undefined to fail it.
+   */
+  refresh?(token: string): Promise<string | undefined> | string | undefined;
+}
+
+/**
+ * A `Credentials` object, or a function returning the current token
+ */
+export type CredentialProvider = Credentials | (() => Promise<string> | string);
+
+/**
+ * Tokens issued by Airtable's OAuth token endpoint
+ */
+export interface OAuthTokens {
+  accessToken: string;
+  /** Airtable issues a new refresh token with every access token */
+  refreshToken: string;
+  /** When the access token expires, in milliseconds since the epoch */
+  expiresAt?: number;
+}
+
+export interface OAuthCredentialsOptions {
+  clientId: string;
+  /** Only for confidential clients, sent with HTTP Basic authentication */
+  clientSecret?: string;
+  refreshToken: string;
+  /** A current access token, used until it expires */
+  accessToken?: string;
+  expiresAt?: number;
+  /** Default: https://airtable.com/oauth2/v1/token */
+  tokenUrl?: string;
+  /** Refresh this long before the access token expires (default: 60000) */
+  refreshMarginMs?: number;
+  /** Fetch implementation used for token requests (default: global fetch) */
+  fetch?: FetchFunction;
+  /** Called with every new set of tokens, e.g. to store the refresh token */
+  onRefresh?: (tokens: OAuthTokens) => Promise<void> | void;
+}
+
+/**
+ * Cancellation settings accepted by every request method
+ */
+export interface RequestOptions {
+  /** Abort the operation, including remaining pages or batches */
+  signal?: AbortSignal;
+  /** Timeout for each HTTP attempt in milliseconds, overriding the default */
+  timeoutMs?: number;
+}
+
+/**
+ * Per-call cache behavior: `no-store` bypasses the cache, `reload` skips
+ * cached entries but stores the fresh response
+ */
+export type CacheMode = 'no-store' | 'reload';
+
+/**
+ * Options accepted by methods that read records
+ */
+export interface ReadOptions extends RequestOptions {
+  cache?: CacheMode;
+}
+
+/**
+ * Storage backend for the response cache. Values are JSON strings.
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | undefined> | string | undefined;
+  /** Store a value, expiring it after `ttlMs` when given */
+  set(key: string, value: string, ttlMs?: number): Promise<void> | void;
+}
+
+export interface CacheOptions {
+  /** How long reads are cached in milliseconds (default: 60000) */
+  ttlMs?: number;
+  /** Maximum entries kept by the default in-memory store (default: 1000) */
+  maxEntries?: number;
+  /** Custom store, e.g. backed by Redis */
+  store?: CacheStore;
+  /**
+   * Identity of the credential reads are cached for. Clients sharing a store
+   * only see each other's entries when their namespaces match. Defaults to a
+   * hash of the API key, or a namespace private to the client when it uses
+   * `credentials`.
+   */
+  namespace?: string;
+}
+
+export type FetchFunction = (
+  url: string,
+  init: RequestInit
+) => Promise<Response>;
+
+export interface AirtableRequest {
+  method: string;
+  url: string;
+  headers: { [name: string]: string };
+  body?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Handles a request by calling `next` (optionally with a modified request)
+ * or by returning a response of its own
+ */
+export type Middleware = (
+  request: AirtableRequest,
+  next: (request: AirtableRequest) => Promise<Response>
+) => Promise<Response>;
+
+export interface RateLimitOptions {
+  /** Requests per second allowed for each base (default: 5) */
+  requestsPerSecond?: number;
+  /** Requests that may be sent at once before throttling (default: requestsPerSecond) */
+  burst?: number;
+}
+
+export interface RetryOptions {
+  /** Total number of attempts, including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 500) */
+  baseDelayMs?: number;
+  /** Upper bound for the exponential backoff delay (default: 10000) */
+  maxDelayMs?: number;
+  /** Randomize backoff delays to spread out retries (default: true) */
+  jitter?: boolean;
+  /** Delay after a 429 without a Retry-After header (default: 30000) */
+  rateLimitDelayMs?: number;
+  /** HTTP status codes that are retried (default: 429, 500, 502, 503, 504) */
+  retryableStatusCodes?: number[];
+  /** Airtable error types that are retried (default: NETWORK_ERROR) */
+  retryableErrorTypes?: string[];
+  /** Also retry POST requests on errors other than 429 (default: false) */
+  retryNonIdempotent?: boolean;
+}
+
+/**
+ * Per-table settings accepted by `base.table()`
+ */
+export interface TableConfig {
+  /** Convert field values on read and validate them on write */
+  codecs?: FieldCodecs;
+  /** Set `createdAt` on records returned by this table (default: false) */
+  decodeCreatedTime?: boolean;
+}
+
+/**
+ * Settings passed from the client down to each table
+ */
+export interface TableOptions extends TableConfig {
+  retry?: RetryOptions | false;
+  rateLimiter?: RateLimiter;
+  fetch?: FetchFunction;
+  middleware?: Middleware[];
+  timeoutMs?: number;
+  cache?: ResponseCache;
+  contentUrl?: string;
+  events?: AirtableEvents;
+  logger?: Logger;
+  tracer?: Tracer;
 }
 
 export interface FieldSet {
   [key: string]: unknown;
 }
 
+/**
+ * Record types of a base's tables, keyed by table name
+ */
+export type TableMap<S> = { [K in keyof S]: FieldSet };
+
 export interface Record<T extends FieldSet = FieldSet> {
   id: string;
   createdTime: string;
+  /** `createdTime` as a `Date`, when the table has `decodeCreatedTime` set */
+  createdAt?: Date;
   fields: T;
 }
 
+declare const readonlyField: unique symbol;
+
+/**
+ * Marks a computed field (formula, rollup, created time...) that Airtable
+ * rejects on write. Reads behave like the plain value type.
+ */
+export type ReadonlyField<V> = V & { readonly [readonlyField]?: true };
+
+/**
+ * Names of the fields of `T` that are not marked with `ReadonlyField`
+ */
+export type WritableFieldName<T extends FieldSet> = {
+  [K in keyof T]-?: typeof readonlyField extends keyof NonNullable<T[K]>
+    ? never
+    : K;
+}[keyof T];
+
+/**
+ * Fields of `T` that can be sent in create and update requests
+ */
+export type WritableFields<T extends FieldSet> = Pick<T, WritableFieldName<T>>;
+
 export interface RecordData<T extends FieldSet = FieldSet> {
-  fields: T;
+  fields: WritableFields<T>;
   id?: string;
   createdTime?: string;
 }
 
-export interface ListRecordsOptions {
+/**
+ * Changes to an existing record
+ */
+export interface RecordUpdate<T extends FieldSet = FieldSet> {
+  id: string;
+  fields: Partial<WritableFields<T>>;
+}
+
+export interface Thumbnail {
+  url: string;
+  width: number;
+  height: number;
+}
+
+export interface Attachment {
+  id: string;
+  url: string;
+  filename: string;
+  size?: number;
+  type?: string;
+  width?: number;
+  height?: number;
+  thumbnails?: {
+    small?: Thumbnail;
+    large?: Thumbnail;
+    full?: Thumbnail;
+  };
+}
+
+/**
+ * File contents for an upload: bytes, a Blob, or a web or Node.js stream
+ */
+export type AttachmentData =
+  Uint8Array | Blob | ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>;
+
+export interface UploadAttachmentInput {
+  filename: string;
+  contentType: string;
+  data: AttachmentData;
+}
+
+/**
+ * The updated record, with attachment fields keyed by field ID
+ */
+export interface UploadAttachmentResponse {
+  id: string;
+  createdTime: string;
+  fields: { [fieldId: string]: Attachment[] };
+}
+
+/**
+ * Destination for downloads: a web `WritableStream` or a Node.js writable,
+ * which is ended once the download completes
+ */
+export type AttachmentDestination =
+  | WritableStream<Uint8Array>
+  | {
+      write(chunk: Uint8Array): boolean;
+      end(): unknown;
+      once(
+        event: 'drain' | 'error' | 'close',
+        listener: (error?: unknown) => void
+      ): unknown;
+      removeListener?(
+        event: 'drain' | 'error' | 'close',
+        listener: (error?: unknown) => void
+      ): unknown;
+    };
+
+export interface DownloadAttachmentOptions {
+  signal?: AbortSignal;
+  /** Download a thumbnail instead of the original file */
+  thumbnail?: 'small' | 'large' | 'full';
+}
+
+export interface Collaborator {
+  id: string;
+  email?: string;
+  name?: string;
+}
+
+export interface Barcode {
+  text: string;
+  type?: string;
+}
+
+export interface Button {
+  label: string;
+  url: string | null;
+}
+
+export interface AiText {
+  state: 'empty' | 'loading' | 'generated' | 'error';
+  value: string | null;
+  isStale: boolean;
+  errorType?: string;
+}
+
+/**
+ * Converts a field value between its API representation and the value
+ * used in application code
+ */
+export interface FieldCodec<V = unknown, R = unknown> {
+  /** Convert a value returned by the API */
+  decode(value: R): V;
+  /** Convert a value before it is sent to the API */
+  encode(value: V): R;
+  /** Return a reason the value cannot be written, or undefined when valid */
+  validate?(value: unknown): string | undefined;
+}
+
+/**
+ * Codecs keyed by field name
+ */
+export interface FieldCodecs {
+  [field: string]: FieldCodec;
+}
+
+export interface Duration {
+  hours: number;
+  minutes: number;
+  seconds: number;
+  milliseconds: number;
+}
+
+/**
+ * Attachment accepted on write: a new file by URL or an existing one by ID
+ */
+export type AttachmentInput =
+  Attachment | { url: string; filename?: string } | { id: string };
+
+/**
+ * How cell values are returned by record reads
+ */
+export interface CellFormatOptions {
+  cellFormat?: 'json' | 'string';
+  timeZone?: string;
+  userLocale?: string;
+  returnFieldsByFieldId?: boolean;
+}
+
+export interface ListRecordsOptions<T extends FieldSet = FieldSet>
+  extends ReadOptions, CellFormatOptions {
   fields?: string[];
-  filterByFormula?: string;
+  /** Raw formula string or an expression from the formula builder */
+  filterByFormula?: string | Formula<T>;
   maxRecords?: number;
   pageSize?: number;
   sort?: Array<{ field: string; direction: 'asc' | 'desc' }>;
   view?: string;
-  cellFormat?: 'json' | 'string';
-  timeZone?: string;
-  userLocale?: string;
-  returnFieldsByFieldId?: boolean;
+  /**
+   * HTTP method for listing. By default POST is used only when the GET URL
+   * would exceed Airtable's 16,000 character limit.
+   */
+  method?: 'GET' | 'POST';
 }
 
 export interface ListRecordsResponse<T extends FieldSet = FieldSet> {
@@ -37,14 +405,747 @@ export interface ListRecordsResponse<T extends FieldSet = FieldSet> {
   offset?: string;
 }
 
-export interface CreateRecordsOptions {
+export interface CreateRecordsOptions extends RequestOptions {
+  typecast?: boolean;
+}
+
+export interface UpdateRecordsOptions extends RequestOptions {
   typecast?: boolean;
 }
 
-export interface UpdateRecordsOptions {
+export interface FindRecordOptions extends ReadOptions, CellFormatOptions {}
+
+export interface FindRecordsOptions extends FindRecordOptions {
+  /** Number of records fetched at once when finding several IDs (default: 1) */
+  concurrency?: number;
+}
+
+/**
+ * A table that linked records can be fetched from, such as `base.table('People')`
+ */
+export interface LinkedTable<U extends FieldSet = FieldSet> {
+  select(options?: ListRecordsOptions<U>): Promise<Record<U>[]>;
+}
+
+/**
+ * Where to fetch the records of a link field from, and how to expand them in
+ * turn
+ */
+export type ExpandTarget<U extends FieldSet = FieldSet> =
+  | LinkedTable<U>
+  | {
+      table: LinkedTable<U>;
+      /** Fields to fetch from the linked table */
+      fields?: string[];
+      /** Link fields of the linked records to expand */
+      expand?: ExpandFields<U>;
+    };
+
+/**
+ * Link fields to expand, keyed by field name
+ */
+export type ExpandFields<T extends FieldSet = FieldSet> = {
+  [K in keyof T]?: ExpandTarget;
+};
+
+export interface ExpandOptions<E extends ExpandFields = ExpandFields> {
+  /** Replace link fields' record IDs with the linked records */
+  expand: E;
+  /** Levels of nested expansion allowed; deeper `expand` specs are rejected (default: 3) */
+  expandDepth?: number;
+}
+
+/**
+ * Fields of `T` with the link fields named in `E` replaced by linked records
+ */
+export type Expanded<T extends FieldSet, E> = {
+  [K in keyof T]: K extends keyof E ? ExpandedLink<E[K]> : T[K];
+};
+
+type ExpandedLink<X> = X extends {
+  table: LinkedTable<infer U>;
+  expand: infer N;
+}
+  ? Record<Expanded<U, N>>[]
+  : X extends { table: LinkedTable<infer U> }
+    ? Record<U>[]
+    : X extends LinkedTable<infer U>
+      ? Record<U>[]
+      : never;
+
+/**
+ * Options for the batch methods, which split input into chunks of 10
+ */
+export interface BatchOptions extends RequestOptions {
+  /** Return a `BatchResult` instead of throwing when a chunk fails */
+  returnResult?: boolean;
+  /** Keep sending chunks after one fails (requires `returnResult`) */
+  continueOnError?: boolean;
+  /** Only send the records left over by a previous call with the same input */
+  resumeToken?: string;
+  /** Number of chunks sent at once, within the base's rate limit (default: 1) */
+  concurrency?: number;
+}
+
+/**
+ * A chunk of a batch call that was not written
+ */
+export interface BatchFailure<I> {
+  /** Positions of the chunk's records in the input */
+  indices: number[];
+  input: I[];
+  error: AirtableError;
+}
+
+/**
+ * Outcome of a batch call made with `returnResult`
+ */
+export interface BatchResult<I, R> {
+  /** Results of the chunks that were written, in input order */
+  succeeded: R[];
+  failed: Array<BatchFailure<I>>;
+  /**
+   * Pass as `resumeToken` with the same input to send the failed and
+   * unsent records again; undefined when everything was written
+   */
+  resumeToken?: string;
+}
+
+export interface SyncOptions<
+  T extends FieldSet = FieldSet,
+> extends RequestOptions {
+  /** Fields that identify a record in both datasets */
+  keyFields: Array<FieldName<T>>;
+  /** Delete table records with no local counterpart (default: false) */
+  deleteMissing?: boolean;
+  /** Fields compared to detect changes (default: every field of the local record) */
+  compareFields?: Array<FieldName<T>>;
+  /** Only compute the plan, without writing anything */
+  dryRun?: boolean;
+  typecast?: boolean;
+  /** Number of batch chunks sent at once (default: 1) */
+  concurrency?: number;
+}
+
+/**
+ * Changes needed to make a table match a local dataset
+ */
+export interface SyncPlan<T extends FieldSet = FieldSet> {
+  creates: RecordData<T>[];
+  /** Updates carrying only the fields that changed */
+  updates: RecordUpdate<T>[];
+  deletes: Record<T>[];
+  /** Number of records that already match */
+  unchanged: number;
+}
+
+export interface SyncResult<T extends FieldSet = FieldSet> {
+  plan: SyncPlan<T>;
+  dryRun: boolean;
+  created: Record<T>[];
+  updated: Record<T>[];
+  deleted: string[];
+  /** Chunks that could not be written; the rest of the plan was still applied */
+  failed: Array<BatchFailure<RecordData<T> | RecordUpdate<T> | string>>;
+  /** Record counts, planned in dry-run mode and written otherwise */
+  summary: {
+    created: number;
+    updated: number;
+    deleted: number;
+    unchanged: number;
+    failed: number;
+  };
+}
+
+export type TransferFormat = 'csv' | 'ndjson';
+
+/**
+ * Destination for exports, written as UTF-8 and ended once the export
+ * completes
+ */
+export type ExportDestination = AttachmentDestination;
+
+export interface ExportOptions<
+  T extends FieldSet = FieldSet,
+> extends ListRecordsOptions<T> {
+  format: TransferFormat;
+  /** Add the record ID as the first CSV column (default: false) */
+  includeId?: boolean;
+}
+
+/**
+ * Text to import: a string, or a web or Node.js stream of text or bytes
+ */
+export type ImportSource =
+  string | ReadableStream<Uint8Array> | AsyncIterable<string | Uint8Array>;
+
+/**
+ * Type a text value is converted to on import. Arrays are comma-separated.
+ */
+export type ColumnType =
+  'string' | 'number' | 'boolean' | 'date' | 'array' | 'json';
+
+export interface ColumnMapping {
+  /** Source column or property (default: the field name) */
+  column?: string;
+  type?: ColumnType;
+  /** Custom conversion, applied instead of `type` */
+  parse?: (value: unknown) => unknown;
+}
+
+export interface ImportOptions<
+  T extends FieldSet = FieldSet,
+> extends RequestOptions {
+  format: TransferFormat;
+  /**
+   * Source of each field, by column name or with a conversion. Without a
+   * mapping every column is imported into the field of the same name.
+   */
+  mapping?: { [K in FieldName<T>]?: string | ColumnMapping };
   typecast?: boolean;
+  /** Upsert on these fields instead of creating records */
+  fieldsToMergeOn?: Array<FieldName<T>>;
+  /** Rows parsed before they are written (default: 100) */
+  batchSize?: number;
+  /** Number of 10-record chunks sent at once (default: 1) */
+  concurrency?: number;
+}
+
+export interface ImportFailure {
+  /** Line of the row in the source, starting at 1 */
+  line: number;
+  /** The row as parsed from the source */
+  row: { [column: string]: unknown };
+  error: AirtableError;
+}
+
+export interface ImportResult<T extends FieldSet = FieldSet> {
+  /** Data rows read from the source */
+  rows: number;
+  /** Records created or upserted */
+  records: Record<T>[];
+  failed: ImportFailure[];
+}
+
+export interface UpsertRecordsOptions<
+  T extends FieldSet = FieldSet,
+> extends UpdateRecordsOptions {
+  /** Fields used to match incoming records against existing ones */
+  fieldsToMergeOn: Array<FieldName<T>>;
+}
+
+export interface UpsertRecordsResponse<T extends FieldSet = FieldSet> {
+  records: Record<T>[];
+  /** IDs of records that did not match and were created */
+  createdRecords: string[];
+  /** IDs of existing records that were updated */
+  updatedRecords: string[];
+}
+
+export interface DeletedRecord {
+  id: string;
+  deleted: boolean;
 }
 
 export interface DeleteRecordsResponse {
-  records: Array<{ id: string; deleted: boolean }>;
+  records: DeletedRecord[];
+}
+
+export interface BaseInfo {
+  id: string;
+  name: string;
+  permissionLevel: 'none' | 'read' | 'comment' | 'edit' | 'create';
+}
+
+export interface ListBasesResponse {
+  bases: BaseInfo[];
+  offset?: string;
+}
+
+export interface SelectChoice {
+  id?: string;
+  name: string;
+  color?: string;
+}
+
+export type FieldColor =
+  | 'greenBright'
+  | 'tealBright'
+  | 'cyanBright'
+  | 'blueBright'
+  | 'purpleBright'
+  | 'pinkBright'
+  | 'redBright'
+  | 'orangeBright'
+  | 'yellowBright'
+  | 'grayBright';
+
+export interface DateFormat {
+  name: 'local' | 'friendly' | 'us' | 'european' | 'iso';
+  format?: string;
+}
+
+export interface TimeFormat {
+  name: '12hour' | '24hour';
+  format?: string;
+}
+
+/**
+ * Field options by field type. Types mapped to `undefined` have no options.
+ */
+export interface FieldOptionsMap {
+  singleLineText: undefined;
+  email: undefined;
+  url: undefined;
+  multilineText: undefined;
+  richText: undefined;
+  phoneNumber: undefined;
+  number: { precision: number };
+  percent: { precision: number };
+  currency: { precision: number; symbol: string };
+  duration: {
+    durationFormat:
+      'h:mm' | 'h:mm:ss' | 'h:mm:ss.S' | 'h:mm:ss.SS' | 'h:mm:ss.SSS';
+  };
+  rating: { max: number; icon: string; color: string };
+  checkbox: { icon: string; color: string };
+  singleSelect: { choices: SelectChoice[] };
+  multipleSelects: { choices: SelectChoice[] };
+  singleCollaborator: undefined;
+  multipleCollaborators: undefined;
+  multipleRecordLinks: {
+    linkedTableId: string;
+    isReversed?: boolean;
+    prefersSingleRecordLink?: boolean;
+    inverseLinkFieldId?: string;
+    viewIdForRecordSelection?: string;
+  };
+  multipleAttachments: { isReversed?: boolean };
+  date: { dateFormat: DateFormat };
+  dateTime: {
+    dateFormat: DateFormat;
+    timeFormat: TimeFormat;
+    timeZone: string;
+  };
+  barcode: undefined;
+  button: undefined;
+  autoNumber: undefined;
+  createdTime: { result?: FieldSchema };
+  lastModifiedTime: {
+    isValid: boolean;
+    referencedFieldIds: string[] | null;
+    result?: FieldSchema | null;
+  };
+  createdBy: undefined;
+  lastModifiedBy: undefined;
+  formula: {
+    isValid: boolean;
+    referencedFieldIds: string[] | null;
+    result: FieldSchema | null;
+  };
+  rollup: {
+    fieldIdInLinkedTable?: string;
+    recordLinkFieldId?: string;
+    isValid?: boolean;
+    referencedFieldIds?: string[];
+    result?: FieldSchema | null;
+  };
+  count: { isValid: boolean; recordLinkFieldId?: string | null };
+  multipleLookupValues: {
+    fieldIdInLinkedTable: string | null;
+    recordLinkFieldId: string | null;
+    isValid: boolean;
+    result: FieldSchema | null;
+  };
+  externalSyncSource: { choices: SelectChoice[] };
+  aiText: { prompt?: unknown[]; referencedFieldIds?: string[] };
+}
+
+export type FieldType = keyof FieldOptionsMap;
+
+/**
+ * Schema of a field, discriminated by `type`
+ */
+export type FieldSchema = {
+  [K in FieldType]: {
+    id: string;
+    name: string;
+    type: K;
+    description?: string;
+  } & (FieldOptionsMap[K] extends undefined
+    ? { options?: undefined }
+    : { options: FieldOptionsMap[K] });
+}[FieldType];
+
+/**
+ * Field definition used when creating a field, discriminated by `type`
+ */
+export type FieldInput = {
+  [K in FieldType]: {
+    name: string;
+    type: K;
+    description?: string;
+  } & (FieldOptionsMap[K] extends undefined
+    ? { options?: undefined }
+    : { options?: Partial<FieldOptionsMap[K]> });
+}[FieldType];
+
+export interface ViewSchema {
+  id: string;
+  name: string;
+  type:
+    'grid' | 'form' | 'calendar' | 'gallery' | 'kanban' | 'timeline' | 'block';
+  visibleFieldIds?: string[];
+}
+
+export interface TableSchema {
+  id: string;
+  name: string;
+  primaryFieldId: string;
+  description?: string;
+  fields: FieldSchema[];
+  views: ViewSchema[];
+}
+
+export interface BaseSchema {
+  tables: TableSchema[];
+}
+
+export interface CreateTableInput {
+  name: string;
+  description?: string;
+  /** The first field becomes the primary field */
+  fields: FieldInput[];
+}
+
+export interface UpdateTableInput {
+  name?: string;
+  description?: string;
+}
+
+export interface UpdateFieldInput {
+  name?: string;
+  description?: string;
+}
+
+export type WebhookDataType = 'tableData' | 'tableFields' | 'tableMetadata';
+
+export type WebhookChangeType = 'add' | 'remove' | 'update';
+
+/**
+ * What a webhook watches and which values its payloads include
+ */
+export interface WebhookSpecification {
+  options: {
+    filters: {
+      dataTypes: WebhookDataType[];
+      recordChangeScope?: string;
+      changeTypes?: WebhookChangeType[];
+      fromSources?: string[];
+      watchDataInFieldIds?: string[];
+      watchSchemasOfFieldIds?: string[];
+    };
+    includes?: {
+      includeCellValuesInFieldIds?: string[] | 'all';
+      includePreviousCellValues?: boolean;
+      includePreviousFieldDefinitions?: boolean;
+    };
+  };
+}
+
+export interface CreateWebhookInput {
+  /** URL pinged when new payloads are available */
+  notificationUrl?: string | null;
+  specification: WebhookSpecification;
+}
+
+export interface CreateWebhookResponse {
+  id: string;
+  /** Secret for verifying notification pings; only returned on creation */
+  macSecretBase64: string;
+  expirationTime: string | null;
+}
+
+export interface Webhook {
+  id: string;
+  areNotificationsEnabled: boolean;
+  cursorForNextPayload: number;
+  isHookEnabled: boolean;
+  lastSuccessfulNotificationTime: string | null;
+  notificationUrl: string | null;
+  expirationTime: string | null;
+  lastNotificationResult: {
+    success: boolean;
+    completionTimestamp: string;
+    durationMs: number;
+    retryNumber: number;
+    error?: { message: string };
+    willBeRetried?: boolean;
+  } | null;
+  specification: WebhookSpecification;
 }
+
+export interface WebhookCellValues {
+  cellValuesByFieldId?: { [fieldId: string]: unknown };
+}
+
+export interface WebhookFieldDefinition {
+  name?: string;
+  type?: FieldType;
+}
+
+/**
+ * Changes to one table in a webhook payload
+ */
+export interface WebhookTableChanges {
+  changedMetadata?: {
+    current: { name?: string; description?: string | null };
+    previous?: { name?: string; description?: string | null };
+  };
+  createdRecordsById?: {
+    [recordId: string]: WebhookCellValues & { createdTime: string };
+  };
+  changedRecordsById?: {
+    [recordId: string]: {
+      current: WebhookCellValues;
+      previous?: WebhookCellValues;
+      unchanged?: WebhookCellValues;
+    };
+  };
+  destroyedRecordIds?: string[];
+  createdFieldsById?: { [fieldId: string]: WebhookFieldDefinition };
+  changedFieldsById?: {
+    [fieldId: string]: {
+      current: WebhookFieldDefinition;
+      previous?: WebhookFieldDefinition;
+    };
+  };
+  destroyedFieldIds?: string[];
+}
+
+export interface WebhookPayload {
+  timestamp: string;
+  baseTransactionNumber: number;
+  payloadFormat: 'v0';
+  actionMetadata: {
+    source: string;
+    sourceMetadata?: { [key: string]: unknown };
+  };
+  changedTablesById?: { [tableId: string]: WebhookTableChanges };
+  createdTablesById?: {
+    [tableId: string]: {
+      metadata?: { name: string; description?: string | null };
+      fieldsById?: { [fieldId: string]: WebhookFieldDefinition };
+      recordsById?: {
+        [recordId: string]: WebhookCellValues & { createdTime: string };
+      };
+    };
+  };
+  destroyedTableIds?: string[];
+  /** Set when Airtable could not generate the payload */
+  error?: boolean;
+  code?: string;
+}
+
+export interface ListWebhookPayloadsResponse {
+  payloads: WebhookPayload[];
+  cursor: number;
+  mightHaveMore: boolean;
+}
+
+/**
+ * A record or field change from a webhook payload
+ */
+export type WebhookChange =
+  | {
+      type: 'recordCreated';
+      tableId: string;
+      recordId: string;
+      createdTime: string;
+      cellValuesByFieldId: { [fieldId: string]: unknown };
+    }
+  | {
+      type: 'recordChanged';
+      tableId: string;
+      recordId: string;
+      current: { [fieldId: string]: unknown };
+      previous?: { [fieldId: string]: unknown };
+      unchanged?: { [fieldId: string]: unknown };
+    }
+  | { type: 'recordDestroyed'; tableId: string; recordId: string }
+  | {
+      type: 'fieldCreated';
+      tableId: string;
+      fieldId: string;
+      field: WebhookFieldDefinition;
+    }
+  | {
+      type: 'fieldChanged';
+      tableId: string;
+      fieldId: string;
+      current: WebhookFieldDefinition;
+      previous?: WebhookFieldDefinition;
+    }
+  | { type: 'fieldDestroyed'; tableId: string; fieldId: string };
+
+/**
+ * A webhook payload with its changes decoded, and the cursor to resume
+ * listing after it
+ */
+export interface DecodedWebhookPayload extends WebhookPayload {
+  cursor: number;
+  changes: WebhookChange[];
+}
+
+export interface ListWebhookPayloadsOptions extends RequestOptions {
+  /** Payload number to start from (default: 1) */
+  cursor?: number;
+  /** Payloads fetched per request, up to 50 */
+  limit?: number;
+}
+
+/**
+ * Body of the ping Airtable posts to a webhook's notification URL
+ */
+export interface WebhookNotification {
+  base: { id: string };
+  webhook: { id: string };
+  timestamp: string;
+}
+
+/**
+ * A user or group mentioned in a comment with `@[id]`
+ */
+export interface CommentMention {
+  type: 'user' | 'userGroup';
+  id: string;
+  displayName: string;
+  email?: string;
+}
+
+export interface Comment {
+  id: string;
+  author: { id: string; email: string; name?: string };
+  /** Text with mentions written as `@[usrXXXXXXXXXXXXXX]` */
+  text: string;
+  createdTime: string;
+  lastUpdatedTime: string | null;
+  /** Mentioned users and groups by ID */
+  mentioned?: { [id: string]: CommentMention };
+  /** ID of the comment this one replies to */
+  parentCommentId?: string;
+}
+
+export interface ListCommentsOptions extends RequestOptions {
+  /** Comments per page, up to 100 */
+  pageSize?: number;
+  offset?: string;
+}
+
+export interface ListCommentsResponse {
+  comments: Comment[];
+  offset?: string;
+}
+
+export interface CreateCommentInput {
+  text: string;
+  /** Reply to an existing comment */
+  parentCommentId?: string;
+}
+
+/**
+ * Receives SDK log messages. `console` can be used directly.
+ */
+export interface Logger {
+  debug(message: string, ...data: unknown[]): void;
+  info(message: string, ...data: unknown[]): void;
+  warn(message: string, ...data: unknown[]): void;
+  error(message: string, ...data: unknown[]): void;
+}
+
+export type SpanAttributes = { [key: string]: string | number | boolean };
+
+/**
+ * The parts of a tracing span the SDK uses, satisfied by OpenTelemetry spans
+ */
+export interface Span {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  end(): void;
+}
+
+/**
+ * Starts spans, satisfied by OpenTelemetry's `trace.getTracer(name)`
+ */
+export interface Tracer {
+  startSpan(name: string, options?: { attributes?: SpanAttributes }): Span;
+}
+
+interface RequestEventInfo {
+  method: string;
+  /** Request URL, with credentials redacted */
+  url: string;
+  table?: string;
+  /** Attempt number, starting at 1 */
+  attempt: number;
+}
+
+/** A request is about to be sent */
+export interface RequestStartEvent extends RequestEventInfo {
+  type: 'request';
+}
+
+/** A response was received, or the request failed without one */
+export interface ResponseEvent extends RequestEventInfo {
+  type: 'response';
+  status?: number;
+  durationMs: number;
+  error?: AirtableError;
+}
+
+/** A failed request will be sent again after a delay */
+export interface RetryEvent extends RequestEventInfo {
+  type: 'retry';
+  delayMs: number;
+  error: AirtableError;
+}
+
+/** A request waited for the rate limiter before being sent */
+export interface RateLimitWaitEvent extends RequestEventInfo {
+  type: 'rateLimitWait';
+  waitMs: number;
+}
+
+/** A page of records was listed */
+export interface PageEvent {
+  type: 'page';
+  table: string;
+  records: number;
+  /** Offset of the next page, if any */
+  offset?: string;
+}
+
+/** A chunk of a batch operation finished */
+export interface BatchChunkEvent {
+  type: 'batchChunk';
+  table: string;
+  records: number;
+  durationMs: number;
+  error?: AirtableError;
+}
+
+export type AirtableEvent =
+  | RequestStartEvent
+  | ResponseEvent
+  | RetryEvent
+  | RateLimitWaitEvent
+  | PageEvent
+  | BatchChunkEvent;
+
+/**
+ * Events by type, with `'*'` receiving every event
+ */
+export type AirtableEventMap = {
+  [K in AirtableEvent['type']]: Extract<AirtableEvent, { type: K }>;
+} & { '*': AirtableEvent };
@@ -0,0 +1,225 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { HttpClient } from './http';
+import {
+  CreateWebhookInput,
+  CreateWebhookResponse,
+  DecodedWebhookPayload,
+  ListWebhookPayloadsOptions,
+  ListWebhookPayloadsResponse,
+  RequestOptions,
+  Webhook,
+  WebhookChange,
+  WebhookPayload,
+} from './types';
+
+/**
+ * Webhooks of a base, available as `base.webhooks`
+ */
+export class AirtableWebhooks {
+  private readonly endpoint: string;
+
+  constructor(
+    baseId: string,
+    baseUrl: string,
+    private readonly http: HttpClient
+  ) {
+    this.endpoint = `${baseUrl}/bases/${baseId}/webhooks`;
+  }
+
+  /**
+   * Create a webhook. Keep the returned MAC secret to verify notifications.
+   */
+  async create(
+    webhook: CreateWebhookInput,
+    options: RequestOptions = {}
+  ): Promise<CreateWebhookResponse> {
+    return this.http.request<CreateWebhookResponse>(
+      'POST',
+      this.endpoint,
+      webhook,
+      options
+    );
+  }
+
+  /**
+   * List the webhooks of the base
+   */
+  async list(options: RequestOptions = {}): Promise<Webhook[]> {
+    const response = await this.http.request<{ webhooks: Webhook[] }>(
+      'GET',
+      this.endpoint,
+      undefined,
+      options
+    );
+    return response.webhooks;
+  }
+
+  /**
+   * Delete a webhook
+   */
+  async delete(webhookId: string, options: RequestOptions = {}): Promise<void> {
+    await this.http.request<unknown>(
+      'DELETE',
+      `${this.endpoint}/${webhookId}`,
+      undefined,
+      options
+    );
+  }
+
+  /**
+   * Turn notification pings on or off
+   */
+  async enableNotifications(
+    webhookId: string,
+    enable = true,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.http.request<unknown>(
+      'POST',
+      `${this.endpoint}/${webhookId}/enableNotifications`,
+      { enable },
+      options
+    );
+  }
+
+  /**
+   * Extend the webhook's expiration, returning the new expiration time
+   */
+  async refresh(
+    webhookId: string,
+    options: RequestOptions = {}
+  ): Promise<string | null> {
+    const response = await this.http.request<{ expirationTime: string | null }>(
+      'POST',
+      `${this.endpoint}/${webhookId}/refresh`,
+      undefined,
+      options
+    );
+    return response.expirationTime;
+  }
+
+  /**
+   * Iterate over payloads from `options.cursor` onwards, fetching pages until
+   * no more are available. Each payload carries the cursor to resume after it.
+   */
+  async *listPayloads(
+    webhookId: string,
+    options: ListWebhookPayloadsOptions = {}
+  ): AsyncIterableIterator<DecodedWebhookPayload> {
+    let cursor = options.cursor;
+    let mightHaveMore: boolean;
+
+    do {
+      const params = new URLSearchParams();
+      if (cursor !== undefined) {
+        params.append('cursor', cursor.toString());
+      }
+      if (options.limit) {
+        params.append('limit', options.limit.toString());
+      }
+
+      const query = params.toString();
+      const response = await this.http.request<ListWebhookPayloadsResponse>(
+        'GET',
+        `${this.endpoint}/${webhookId}/payloads${query ? `?${query}` : ''}`,
+        undefined,
+        options
+      );
+
+      const start = response.cursor - response.payloads.length;
+      for (let i = 0; i < response.payloads.length; i++) {
+        yield {
+          ...response.payloads[i],
+          cursor: start + i + 1,
+          changes: decodeWebhookPayload(response.payloads[i]),
+        };
+      }
+
+      cursor = response.cursor;
+      mightHaveMore = response.mightHaveMore && response.payloads.length > 0;
+    } while (mightHaveMore);
+  }
+}
+
+/**
+ * Flatten a payload into record and field changes, table by table
+ */
+export function decodeWebhookPayload(payload: WebhookPayload): WebhookChange[] {
+  const changes: WebhookChange[] = [];
+
+  for (const [tableId, table] of Object.entries(
+    payload.changedTablesById || {}
+  )) {
+    for (const [recordId, record] of Object.entries(
+      table.createdRecordsById || {}
+    )) {
+      changes.push({
+        type: 'recordCreated',
+        tableId,
+        recordId,
+        createdTime: record.createdTime,
+        cellValuesByFieldId: record.cellValuesByFieldId || {},
+      });
+    }
+    for (const [recordId, record] of Object.entries(
+      table.changedRecordsById || {}
+    )) {
+      changes.push({
+        type: 'recordChanged',
+        tableId,
+        recordId,
+        current: record.current.cellValuesByFieldId || {},
+        previous: record.previous?.cellValuesByFieldId,
+        unchanged: record.unchanged?.cellValuesByFieldId,
+      });
+    }
+    for (const recordId of table.destroyedRecordIds || []) {
+      changes.push({ type: 'recordDestroyed', tableId, recordId });
+    }
+
+    for (const [fieldId, field] of Object.entries(
+      table.createdFieldsById || {}
+    )) {
+      changes.push({ type: 'fieldCreated', tableId, fieldId, field });
+    }
+    for (const [fieldId, field] of Object.entries(
+      table.changedFieldsById || {}
+    )) {
+      changes.push({
+        type: 'fieldChanged',
+        tableId,
+        fieldId,
+        current: field.current,
+        previous: field.previous,
+      });
+    }
+    for (const fieldId of table.destroyedFieldIds || []) {
+      changes.push({ type: 'fieldDestroyed', tableId, fieldId });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Check the `X-Airtable-Content-MAC` header of a notification ping against
+ * the raw request body, using the webhook's base64 MAC secret
+ */
+export function verifyWebhookSignature(
+  body: string | Uint8Array,
+  header: string | null | undefined,
+  macSecretBase64: string
+): boolean {
+  if (!header) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    `hmac-sha256=${createHmac('sha256', Buffer.from(macSecretBase64, 'base64'))
+      .update(body)
+      .digest('hex')}`
+  );
+  const actual = Buffer.from(header);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
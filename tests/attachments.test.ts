@@ -0,0 +1,150 @@
+import { Writable } from 'stream';
+import { MAX_UPLOAD_BYTES } from '../src/attachments';
+import { AirtableTable } from '../src/table';
+import { Attachment } from '../src/types';
+import { jsonResponse } from './helpers';
+
+describe('attachments', () => {
+  let fetchMock: jest.Mock;
+  let table: AirtableTable;
+
+  const file = (text: string, status = 200) =>
+    new Response(status === 200 ? text : null, { status });
+  const attachment: Attachment = {
+    id: 'attFile',
+    url: 'https://files.example.com/expired',
+    filename: 'report.txt',
+    thumbnails: {
+      small: { url: 'https://files.example.com/small', width: 36, height: 36 },
+    },
+  };
+  const collect = () => {
+    const chunks: Buffer[] = [];
+    const writable = new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(chunk);
+        callback();
+      },
+    });
+    return { writable, text: () => Buffer.concat(chunks).toString() };
+  };
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    table = new AirtableTable(
+      'appTest123',
+      'Tasks',
+      'test-key',
+      'https://api.airtable.com/v0',
+      { fetch: fetchMock }
+    );
+  });
+
+  describe('uploadAttachment', () => {
+    it('should post the file as base64 to the content endpoint', async () => {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse({ id: 'rec123', createdTime: '2024-01-01', fields: {} })
+      );
+
+      await table.uploadAttachment('rec123', 'Files', {
+        filename: 'hello.txt',
+        contentType: 'text/plain',
+        data: Buffer.from('hello'),
+      });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(
+        'https://content.airtable.com/v0/appTest123/rec123/Files/uploadAttachment'
+      );
+      expect(JSON.parse(init.body)).toEqual({
+        contentType: 'text/plain',
+        filename: 'hello.txt',
+        file: Buffer.from('hello').toString('base64'),
+      });
+    });
+
+    it('should read streams and reject files over the size limit', async () => {
+      async function* chunks() {
+        yield new Uint8Array(MAX_UPLOAD_BYTES);
+        yield new Uint8Array(1);
+      }
+
+      await expect(
+        table.uploadAttachment('rec123', 'Files', {
+          filename: 'big.bin',
+          contentType: 'application/octet-stream',
+          data: chunks(),
+        })
+      ).rejects.toMatchObject({ errorType: 'ATTACHMENT_TOO_LARGE' });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('downloadAttachment', () => {
+    it('should stream a thumbnail to a writable', async () => {
+      fetchMock.mockResolvedValueOnce(file('thumbnail'));
+      const { writable, text } = collect();
+
+      await table.downloadAttachment('rec123', 'Files', attachment, writable, {
+        thumbnail: 'small',
+      });
+
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'https://files.example.com/small'
+      );
+      expect(fetchMock.mock.calls[0][1].headers).toBeUndefined();
+      expect(text()).toBe('thumbnail');
+    });
+
+    it('should refresh an expired URL from the record', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const fresh = { ...attachment, url: 'https://files.example.com/fresh' };
+      const cancel = jest.fn();
+      fetchMock
+        .mockResolvedValueOnce(
+          new Response(new ReadableStream({ cancel }), { status: 410 })
+        )
+        .mockResolvedValueOnce(
+          jsonResponse({
+            id: 'rec123',
+            createdTime: '2024-01-01',
+            fields: { Files: [fresh] },
+          })
+        )
+        .mockResolvedValueOnce(file('contents'));
+      const { writable, text } = collect();
+
+      const downloaded = await table.downloadAttachment(
+        'rec123',
+        'Files',
+        attachment,
+        writable
+      );
+
+      expect(downloaded.url).toBe('https://files.example.com/fresh');
+      expect(text()).toBe('contents');
+      expect(cancel).toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+    });
+
+    it('should reject and cancel the body when the writable fails', async () => {
+      const body = new ReadableStream<Uint8Array>({
+        pull: controller => controller.enqueue(new Uint8Array(1024)),
+      });
+      const cancel = jest.spyOn(body, 'cancel');
+      fetchMock.mockResolvedValueOnce(new Response(body));
+      const writable = new Writable({
+        highWaterMark: 1,
+        write(_chunk, _encoding, callback) {
+          callback(new Error('Disk full'));
+        },
+      });
+
+      await expect(
+        table.downloadAttachment('rec123', 'Files', attachment, writable)
+      ).rejects.toThrow('Disk full');
+      expect(cancel).toHaveBeenCalled();
+    });
+  });
+});
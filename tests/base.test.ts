@@ -0,0 +1,159 @@
+import { AirtableBase } from '../src/base';
+import { AirtableTable } from '../src/table';
+import { BaseSchema, FieldSchema } from '../src/types';
+import { jsonResponse } from './helpers';
+
+const schema: BaseSchema = {
+  tables: [
+    {
+      id: 'tblProjects',
+      name: 'Projects',
+      primaryFieldId: 'fldName',
+      fields: [
+        { id: 'fldName', name: 'Name', type: 'singleLineText' },
+        {
+          id: 'fldStatus',
+          name: 'Status',
+          type: 'singleSelect',
+          options: { choices: [{ id: 'sel1', name: 'Active' }] },
+        },
+        {
+          id: 'fldTasks',
+          name: 'Tasks',
+          type: 'multipleRecordLinks',
+          options: { linkedTableId: 'tblTasks' },
+        },
+      ],
+      views: [{ id: 'viwGrid', name: 'Grid view', type: 'grid' }],
+    },
+  ],
+};
+
+describe('AirtableBase', () => {
+  let fetchMock: jest.Mock;
+  let base: AirtableBase;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    base = new AirtableBase(
+      'appTest123',
+      'test-key',
+      'https://api.airtable.com/v0',
+      { fetch: fetchMock }
+    );
+  });
+
+  it('should create a table instance', () => {
+    expect(base.table('Projects')).toBeInstanceOf(AirtableTable);
+  });
+
+  describe('getSchema', () => {
+    it('should fetch typed table definitions', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse(schema));
+
+      const result = await base.getSchema();
+
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'https://api.airtable.com/v0/meta/bases/appTest123/tables'
+      );
+      const status = result.tables[0].fields[1];
+      expect(status.type === 'singleSelect' && status.options.choices).toEqual([
+        { id: 'sel1', name: 'Active' },
+      ]);
+    });
+  });
+
+  describe('createTable', () => {
+    it('should post the table definition', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse(schema.tables[0]));
+
+      const table = await base.createTable({
+        name: 'Projects',
+        fields: [{ name: 'Name', type: 'singleLineText' }],
+      });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(
+        'https://api.airtable.com/v0/meta/bases/appTest123/tables'
+      );
+      expect(init.method).toBe('POST');
+      expect(JSON.parse(init.body)).toEqual({
+        name: 'Projects',
+        fields: [{ name: 'Name', type: 'singleLineText' }],
+      });
+      expect(table.id).toBe('tblProjects');
+    });
+  });
+
+  describe('table schema methods', () => {
+    const field: FieldSchema = {
+      id: 'fldBudget',
+      name: 'Budget',
+      type: 'currency',
+      options: { precision: 2, symbol: '$' },
+    };
+
+    it('should resolve the table ID before creating a field', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(schema))
+        .mockResolvedValueOnce(jsonResponse(field));
+
+      const created = await base.table('Projects').createField({
+        name: 'Budget',
+        type: 'currency',
+        options: { precision: 2, symbol: '$' },
+      });
+
+      expect(fetchMock.mock.calls[1][0]).toBe(
+        'https://api.airtable.com/v0/meta/bases/appTest123/tables/tblProjects/fields'
+      );
+      expect(created.id).toBe('fldBudget');
+    });
+
+    it('should update a field by name', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(schema))
+        .mockResolvedValueOnce(jsonResponse({ ...field, name: 'Status' }));
+
+      await base.table('Projects').updateField('Status', {
+        description: 'Current state',
+      });
+
+      const [url, init] = fetchMock.mock.calls[1];
+      expect(url).toBe(
+        'https://api.airtable.com/v0/meta/bases/appTest123/tables/tblProjects/fields/fldStatus'
+      );
+      expect(init.method).toBe('PATCH');
+    });
+
+    it('should update a field by ID without fetching the schema', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse(field));
+
+      await base
+        .table('tblProjects')
+        .updateField('fldBudget', { name: 'Cost' });
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should update the table', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse(schema.tables[0]));
+
+      await base.table('Projects').updateTable({ description: 'All projects' });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(
+        'https://api.airtable.com/v0/meta/bases/appTest123/tables/Projects'
+      );
+      expect(JSON.parse(init.body)).toEqual({ description: 'All projects' });
+    });
+
+    it('should throw when the table is not in the schema', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse(schema));
+
+      await expect(base.table('Missing').getSchema()).rejects.toThrow(
+        'Table "Missing" not found'
+      );
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  decodeResumeToken,
+  encodeResumeToken,
+  mapConcurrent,
+  runBatch,
+} from '../src/batch';
+import { AirtableError } from '../src/errors';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('mapConcurrent', () => {
+  it('should limit calls in flight and keep input order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapConcurrent([30, 10, 20, 5, 15], 2, async ms => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await delay(ms);
+      inFlight--;
+      return ms * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40, 10, 30]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should stop starting calls after an error', async () => {
+    const calls: number[] = [];
+
+    await expect(
+      mapConcurrent([1, 2, 3, 4], 1, async item => {
+        calls.push(item);
+        if (item === 2) {
+          throw new Error('failed');
+        }
+        return item;
+      })
+    ).rejects.toThrow('failed');
+    expect(calls).toEqual([1, 2]);
+  });
+});
+
+describe('runBatch', () => {
+  const items = Array.from({ length: 35 }, (_, i) => i);
+
+  it('should send chunks concurrently and return results in order', async () => {
+    const result = await runBatch(items, { concurrency: 3 }, async chunk => {
+      await delay(40 - chunk[0]);
+      return chunk.map(item => item * 10);
+    });
+
+    expect(result.succeeded).toEqual(items.map(item => item * 10));
+    expect(result.resumeToken).toBeUndefined();
+  });
+
+  it('should leave failed and unsent chunks to resume', async () => {
+    const result = await runBatch(items, { concurrency: 2 }, async chunk => {
+      if (chunk[0] === 0) {
+        throw new AirtableError('Bad value', 422);
+      }
+      await delay(5);
+      return chunk;
+    });
+
+    // The second chunk was already in flight when the first one failed
+    expect(result.succeeded).toEqual(items.slice(10, 20));
+    expect(result.failed.map(failure => failure.indices[0])).toEqual([0]);
+    expect(result.resumeToken).toBe('0-9,20-34');
+  });
+});
+
+describe('resume tokens', () => {
+  it('should round-trip input positions', () => {
+    const token = encodeResumeToken([0, 1, 2, 7, 10, 11]);
+
+    expect(token).toBe('0-2,7,10-11');
+    expect(decodeResumeToken(token, 12)).toEqual([0, 1, 2, 7, 10, 11]);
+  });
+
+  it('should reject positions outside the input', () => {
+    expect(() => decodeResumeToken('0-12', 12)).toThrow(AirtableError);
+    expect(() => decodeResumeToken('oops', 12)).toThrow(AirtableError);
+  });
+});
@@ -0,0 +1,208 @@
+import { MemoryCacheStore, cacheKey } from '../src/cache';
+import { AirtableClient } from '../src/client';
+import { AbortError } from '../src/errors';
+import { eq } from '../src/formula';
+import { MockAirtable } from '../src/mock';
+import { CacheStore } from '../src/types';
+
+describe('MemoryCacheStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should evict the least recently used entry', () => {
+    const store = new MemoryCacheStore(2);
+    store.set('a', '1');
+    store.set('b', '2');
+    store.get('a');
+    store.set('c', '3');
+
+    expect(store.get('a')).toBe('1');
+    expect(store.get('b')).toBeUndefined();
+    expect(store.size).toBe(2);
+  });
+
+  it('should expire entries after their TTL', () => {
+    jest.useFakeTimers();
+    const store = new MemoryCacheStore();
+    store.set('a', '1', 1000);
+
+    jest.advanceTimersByTime(999);
+    expect(store.get('a')).toBe('1');
+    jest.advanceTimersByTime(1);
+    expect(store.get('a')).toBeUndefined();
+  });
+});
+
+describe('cacheKey', () => {
+  it('should ignore field order and request settings', () => {
+    expect(
+      cacheKey('list', {
+        fields: ['B', 'A'],
+        filterByFormula: eq('Name', 'x'),
+        timeoutMs: 100,
+      })
+    ).toBe(
+      cacheKey('list', {
+        filterByFormula: '{Name} = "x"',
+        fields: ['A', 'B'],
+        signal: new AbortController().signal,
+      })
+    );
+  });
+});
+
+describe('response cache', () => {
+  let mock: MockAirtable;
+  let client: AirtableClient;
+
+  const reads = () =>
+    mock.requests.filter(request => request.method === 'GET').length;
+  const tasks = () => client.base('appTest').table('Tasks');
+
+  beforeEach(() => {
+    mock = new MockAirtable();
+    mock.createTable('appTest', 'Tasks', {
+      records: [{ Name: 'Write docs' }, { Name: 'Fix bug' }],
+    });
+    client = new AirtableClient({
+      apiKey: 'test-key',
+      fetch: mock.fetch,
+      rateLimit: false,
+      cache: { ttlMs: 60000 },
+    });
+  });
+
+  it('should serve repeated reads from the cache', async () => {
+    const first = await tasks().select({ fields: ['Name'] });
+    const second = await tasks().select({ fields: ['Name'] });
+    const [{ id }] = first;
+    await tasks().find(id);
+    await tasks().find(id);
+
+    expect(second).toEqual(first);
+    expect(reads()).toBe(2);
+  });
+
+  it('should invalidate reads of a table after writes', async () => {
+    await tasks().select();
+    await tasks().create({ fields: { Name: 'New' } });
+
+    expect(await tasks().select()).toHaveLength(3);
+    expect(reads()).toBe(2);
+  });
+
+  it('should invalidate reads by name after writes by table ID', async () => {
+    const tableId = mock.createTable('appTest', 'Projects', {
+      records: [{ Name: 'Launch' }],
+    });
+    const byName = () => client.base('appTest').table('Projects');
+    const [project] = await byName().select();
+
+    await client
+      .base('appTest')
+      .table(tableId)
+      .update(project.id, { Name: 'Relaunch' });
+
+    const [updated] = await byName().select();
+    expect(updated.fields.Name).toBe('Relaunch');
+  });
+
+  it('should invalidate reads after schema changes', async () => {
+    client = new AirtableClient({
+      apiKey: 'test-key',
+      fetch: async (url, init) =>
+        url.includes('/meta/')
+          ? new Response(JSON.stringify({ id: 'tblTasks', name: 'Todo' }))
+          : mock.fetch(url, init),
+      rateLimit: false,
+      cache: { ttlMs: 60000 },
+    });
+
+    await tasks().select();
+    await tasks().updateTable({ name: 'Todo' });
+    await tasks().select();
+
+    expect(reads()).toBe(2);
+  });
+
+  it('should stop cached iteration when the signal aborts', async () => {
+    await tasks().createBatch(
+      Array.from({ length: 29 }, (_, i) => ({ fields: { Name: `Task ${i}` } }))
+    );
+    for await (const record of tasks().iterate({ pageSize: 10 })) {
+      expect(record.id).toBeDefined();
+    }
+    const cachedReads = reads();
+    const controller = new AbortController();
+    let count = 0;
+
+    const iterate = async () => {
+      for await (const record of tasks().iterate({
+        pageSize: 10,
+        signal: controller.signal,
+      })) {
+        expect(record.id).toBeDefined();
+        if (++count === 15) {
+          controller.abort();
+        }
+      }
+    };
+
+    await expect(iterate()).rejects.toBeInstanceOf(AbortError);
+    expect(count).toBe(20);
+    expect(reads()).toBe(cachedReads);
+  });
+
+  it('should honor per-call cache modes', async () => {
+    await tasks().select();
+    await tasks().select({ cache: 'no-store' });
+    await tasks().select({ cache: 'reload' });
+    await tasks().select();
+
+    expect(reads()).toBe(3);
+  });
+
+  it('should use a custom store', async () => {
+    const values = new Map<string, string>();
+    const store: CacheStore = {
+      get: async key => values.get(key),
+      set: async (key, value) => {
+        values.set(key, value);
+      },
+    };
+    client = new AirtableClient({
+      apiKey: 'test-key',
+      fetch: mock.fetch,
+      cache: { store },
+    });
+
+    await tasks().select();
+    await tasks().select();
+
+    expect(reads()).toBe(1);
+    expect(values.size).toBeGreaterThan(0);
+  });
+
+  it('should keep entries of different credentials apart in a shared store', async () => {
+    const store = new MemoryCacheStore();
+    const read = (config: { apiKey?: string; credentials?: () => string }) =>
+      new AirtableClient({
+        ...config,
+        fetch: mock.fetch,
+        rateLimit: false,
+        cache: { store },
+      })
+        .base('appTest')
+        .table('Tasks')
+        .select();
+
+    await read({ apiKey: 'key-a' });
+    await read({ apiKey: 'key-a' });
+    expect(reads()).toBe(1);
+
+    await read({ apiKey: 'key-b' });
+    await read({ credentials: () => 'key-a' });
+    expect(reads()).toBe(3);
+  });
+});
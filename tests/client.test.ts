@@ -26,4 +26,44 @@ describe('AirtableClient', () => {
     const client = new AirtableClient({ apiKey: 'test-key' });
     expect(client.getBaseUrl()).toBe('https://api.airtable.com/v0');
   });
+
+  it('should share one rate limiter per base', () => {
+    const client = new AirtableClient({ apiKey: 'test-key' });
+    const limiter = client.base('appTest123').getRateLimiter();
+
+    expect(limiter).toBeDefined();
+    expect(client.base('appTest123').getRateLimiter()).toBe(limiter);
+    expect(client.base('appOther456').getRateLimiter()).not.toBe(limiter);
+  });
+
+  it('should not rate limit when disabled', () => {
+    const client = new AirtableClient({ apiKey: 'test-key', rateLimit: false });
+    expect(client.base('appTest123').getRateLimiter()).toBeUndefined();
+  });
+
+  it('should list bases across pages', async () => {
+    const fetchMock = jest
+      .fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          bases: [{ id: 'app1', name: 'One', permissionLevel: 'create' }],
+          offset: 'page2',
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          bases: [{ id: 'app2', name: 'Two', permissionLevel: 'read' }],
+        }),
+      });
+    const client = new AirtableClient({ apiKey: 'test-key', fetch: fetchMock });
+
+    const bases = await client.listBases();
+
+    expect(bases.map(b => b.id)).toEqual(['app1', 'app2']);
+    expect(fetchMock.mock.calls[1][0]).toBe(
+      'https://api.airtable.com/v0/meta/bases?offset=page2'
+    );
+  });
 });
@@ -0,0 +1,252 @@
+import { AirtableBase } from '../src/base';
+import * as codecs from '../src/codecs';
+import { FieldValidationError } from '../src/errors';
+import { Duration, TableSchema } from '../src/types';
+
+describe('codecs', () => {
+  describe('date', () => {
+    it('should convert between date strings and Date', () => {
+      const codec = codecs.date();
+      const value = codec.decode('2024-03-05');
+
+      expect(value.toISOString()).toBe('2024-03-05T00:00:00.000Z');
+      expect(codec.encode(value)).toBe('2024-03-05');
+      expect(codec.validate!('not a date')).toBeDefined();
+    });
+  });
+
+  describe('dateTime', () => {
+    it('should convert between ISO strings and Date', () => {
+      const codec = codecs.dateTime();
+      const value = codec.decode('2024-03-05T10:30:00.000Z');
+
+      expect(value).toBeInstanceOf(Date);
+      expect(codec.encode(value)).toBe('2024-03-05T10:30:00.000Z');
+    });
+  });
+
+  describe('duration', () => {
+    it('should convert seconds to a structured duration and back', () => {
+      const codec = codecs.duration();
+      const value = codec.decode(3725.5);
+
+      expect(value).toEqual({
+        hours: 1,
+        minutes: 2,
+        seconds: 5,
+        milliseconds: 500,
+      });
+      expect(codec.encode(value)).toBe(3725.5);
+      expect(codec.validate!({ hours: -1 })).toBeDefined();
+    });
+  });
+
+  describe('attachments', () => {
+    it('should send existing attachments by ID and new ones by URL', () => {
+      const codec = codecs.attachments();
+
+      expect(
+        codec.encode([
+          { id: 'att1', url: 'https://x/a.png', filename: 'a.png' },
+          { url: 'https://x/b.png', filename: 'b.png' },
+        ])
+      ).toEqual([
+        { id: 'att1' },
+        { url: 'https://x/b.png', filename: 'b.png' },
+      ]);
+      expect(codec.validate!([{ filename: 'missing-url.png' }])).toBeDefined();
+    });
+  });
+
+  describe('codecsFromSchema', () => {
+    it('should pick codecs by field type and mark computed fields', () => {
+      const schema = {
+        id: 'tblTasks',
+        name: 'Tasks',
+        primaryFieldId: 'fldName',
+        fields: [
+          { id: 'fldName', name: 'Name', type: 'singleLineText' },
+          { id: 'fldDue', name: 'Due', type: 'date', options: {} },
+          { id: 'fldCreated', name: 'Created', type: 'createdTime' },
+        ],
+        views: [],
+      } as unknown as TableSchema;
+
+      const result = codecs.codecsFromSchema(schema);
+
+      expect(result.Due.decode('2024-01-01')).toBeInstanceOf(Date);
+      expect(result.Created.validate!('2024-01-01')).toBe(
+        'is computed and cannot be written'
+      );
+      expect(result.Name.validate!(42)).toBe('expects a string');
+    });
+  });
+
+  describe('with AirtableTable', () => {
+    type Task = { Name?: string; Due?: Date; Estimate?: Duration };
+
+    const fetchMock = jest.fn();
+    const table = new AirtableBase(
+      'appTest123',
+      'test-key',
+      'https://api.airtable.com/v0',
+      { fetch: fetchMock, retry: false }
+    ).table<Task>('Tasks', {
+      codecs: {
+        Name: codecs.text(),
+        Due: codecs.date(),
+        Estimate: codecs.duration(),
+      },
+    });
+
+    beforeEach(() => {
+      fetchMock.mockReset();
+    });
+
+    it('should decode records on read', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          records: [
+            {
+              id: 'rec1',
+              createdTime: '2024-01-01T00:00:00.000Z',
+              fields: { Name: 'A', Due: '2024-02-01', Estimate: 90 },
+            },
+          ],
+        }),
+      });
+
+      const [record] = await table.select();
+
+      expect(record.fields.Due).toEqual(new Date('2024-02-01T00:00:00.000Z'));
+      expect(record.fields.Estimate).toMatchObject({ minutes: 1, seconds: 30 });
+    });
+
+    it('should leave dates read with cellFormat string undecoded', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          records: [
+            {
+              id: 'rec1',
+              createdTime: '2024-01-01T00:00:00.000Z',
+              fields: { Name: 'A', Due: '2/1/2024', Estimate: '1:30' },
+            },
+          ],
+        }),
+      });
+
+      const [record] = await table.select({
+        cellFormat: 'string',
+        timeZone: 'UTC',
+        userLocale: 'en-us',
+      });
+
+      expect(record.fields).toEqual({
+        Name: 'A',
+        Due: '2/1/2024',
+        Estimate: '1:30',
+      });
+    });
+
+    it('should leave collaborators read with cellFormat string undecoded', async () => {
+      const people = new AirtableBase(
+        'appTest123',
+        'test-key',
+        'https://api.airtable.com/v0',
+        { fetch: fetchMock, retry: false }
+      ).table('People', { codecs: { Team: codecs.collaborators() } });
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          id: 'rec1',
+          createdTime: '2024-01-01T00:00:00.000Z',
+          fields: { Team: 'Ann, Bob' },
+        }),
+      });
+
+      const record = await people.find('rec1', {
+        cellFormat: 'string',
+        timeZone: 'UTC',
+        userLocale: 'en-us',
+      });
+
+      expect(record.fields.Team).toBe('Ann, Bob');
+    });
+
+    it('should set createdAt when decodeCreatedTime is on', async () => {
+      const events = new AirtableBase(
+        'appTest123',
+        'test-key',
+        'https://api.airtable.com/v0',
+        { fetch: fetchMock, retry: false }
+      ).table('Events', { decodeCreatedTime: true });
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          records: [
+            {
+              id: 'rec1',
+              createdTime: '2024-01-01T08:30:00.000Z',
+              fields: {},
+            },
+          ],
+        }),
+      });
+
+      const [record] = await events.select();
+
+      expect(record.createdAt).toEqual(new Date('2024-01-01T08:30:00.000Z'));
+      expect(record.createdTime).toBe('2024-01-01T08:30:00.000Z');
+    });
+
+    it('should encode fields on write', async () => {
+      fetchMock.mockImplementationOnce(async (_url, init) => ({
+        ok: true,
+        json: async () => ({
+          records: [
+            {
+              id: 'rec1',
+              createdTime: '',
+              fields: JSON.parse(init.body).records[0].fields,
+            },
+          ],
+        }),
+      }));
+
+      const record = await table.create({
+        fields: {
+          Name: 'A',
+          Due: new Date('2024-02-01T00:00:00.000Z'),
+          Estimate: { hours: 1, minutes: 0, seconds: 0, milliseconds: 0 },
+        },
+      });
+
+      expect(
+        JSON.parse(fetchMock.mock.calls[0][1].body).records[0].fields
+      ).toEqual({
+        Name: 'A',
+        Due: '2024-02-01',
+        Estimate: 3600,
+      });
+      expect(record.fields.Due).toBeInstanceOf(Date);
+    });
+
+    it('should reject invalid values before sending a batch', async () => {
+      const records = Array.from({ length: 15 }, (_, i) => ({
+        fields: { Name: i === 12 ? (12 as unknown as string) : `Task ${i}` },
+      }));
+
+      const error = await table.createBatch(records).catch(e => e);
+
+      expect(error).toBeInstanceOf(FieldValidationError);
+      expect(error.field).toBe('Name');
+      expect(error.recordIndex).toBe(12);
+      expect(error.message).toBe(
+        'Invalid value for field "Name" in record 12: expects a string'
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
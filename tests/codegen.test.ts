@@ -0,0 +1,121 @@
+import { generateTypes } from '../src/codegen';
+import { BaseSchema } from '../src/types';
+
+const schema = {
+  tables: [
+    {
+      id: 'tblProjects',
+      name: 'Projects',
+      primaryFieldId: 'fldName',
+      description: 'All projects',
+      fields: [
+        { id: 'fldName', name: 'Name', type: 'singleLineText' },
+        {
+          id: 'fldStatus',
+          name: 'Status',
+          type: 'singleSelect',
+          options: { choices: [{ name: 'Active' }, { name: "Won't do" }] },
+        },
+        {
+          id: 'fldTags',
+          name: 'Tags',
+          type: 'multipleSelects',
+          options: { choices: [{ name: 'a' }, { name: 'b' }] },
+        },
+        {
+          id: 'fldBudget',
+          name: 'Budget',
+          type: 'currency',
+          options: { precision: 2, symbol: '$' },
+        },
+        {
+          id: 'fldTasks',
+          name: 'Tasks',
+          type: 'multipleRecordLinks',
+          options: { linkedTableId: 'tblTasks' },
+        },
+        { id: 'fldFiles', name: 'Files', type: 'multipleAttachments' },
+        {
+          id: 'fldDays',
+          name: 'Days Left',
+          type: 'formula',
+          options: {
+            isValid: true,
+            referencedFieldIds: [],
+            result: { type: 'number', options: { precision: 0 } },
+          },
+        },
+        {
+          id: 'fldOwners',
+          name: 'Owner Emails',
+          type: 'multipleLookupValues',
+          options: {
+            isValid: true,
+            fieldIdInLinkedTable: 'fldEmail',
+            recordLinkFieldId: 'fldOwner',
+            result: { type: 'email' },
+          },
+        },
+        { id: 'fldCreated', name: 'Created', type: 'createdTime' },
+      ],
+      views: [],
+    },
+    {
+      id: 'tblTasks',
+      name: 'task list',
+      primaryFieldId: 'fldTitle',
+      fields: [
+        { id: 'fldTitle', name: 'Title', type: 'singleLineText' },
+        { id: 'fldDone', name: 'Done', type: 'checkbox' },
+        { id: 'fldOwner', name: 'Owner', type: 'singleCollaborator' },
+      ],
+      views: [],
+    },
+  ],
+} as unknown as BaseSchema;
+
+describe('generateTypes', () => {
+  const output = generateTypes(schema);
+
+  it('should import only the SDK types that are used', () => {
+    expect(output).toContain(
+      "import { Attachment, Collaborator, ReadonlyField } from '@dlax/airtable-sdk';"
+    );
+  });
+
+  it('should map field kinds to value types', () => {
+    expect(output).toContain('export type Projects = {');
+    expect(output).toContain('  Name?: string;');
+    expect(output).toContain("  Status?: 'Active' | 'Won\\'t do';");
+    expect(output).toContain("  Tags?: Array<'a' | 'b'>;");
+    expect(output).toContain('  Budget?: number;');
+    expect(output).toContain('  Tasks?: string[];');
+    expect(output).toContain('  Files?: Attachment[];');
+    expect(output).toContain('  Done?: boolean;');
+    expect(output).toContain('  Owner?: Collaborator;');
+  });
+
+  it('should mark computed fields as read-only', () => {
+    expect(output).toContain("  'Days Left'?: ReadonlyField<number>;");
+    expect(output).toContain(
+      "  'Owner Emails'?: ReadonlyField<Array<string>>;"
+    );
+    expect(output).toContain('  Created?: ReadonlyField<string>;');
+  });
+
+  it('should emit a table map keyed by table name', () => {
+    expect(output).toContain('export type TaskList = {');
+    expect(output).toMatch(
+      /export interface Tables \{\n {2}Projects: Projects;\n {2}'task list': TaskList;\n\}/
+    );
+  });
+
+  it('should accept a custom table map name and import path', () => {
+    const custom = generateTypes(schema, {
+      tableMapName: 'CrmTables',
+      importFrom: '../src',
+    });
+    expect(custom).toContain('export interface CrmTables {');
+    expect(custom).toContain("from '../src';");
+  });
+});
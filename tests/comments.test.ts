@@ -0,0 +1,92 @@
+import { extractMentions, mention } from '../src/comments';
+import { AirtableTable } from '../src/table';
+import { jsonResponse } from './helpers';
+
+describe('RecordComments', () => {
+  let fetchMock: jest.Mock;
+  let table: AirtableTable;
+
+  const comment = (id: string) => ({
+    id,
+    author: { id: 'usrAuthor', email: 'author@example.com' },
+    text: `Comment ${id}`,
+    createdTime: '2024-01-01T00:00:00.000Z',
+    lastUpdatedTime: null,
+  });
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    table = new AirtableTable(
+      'appTest123',
+      'Tasks',
+      'test-key',
+      'https://api.airtable.com/v0',
+      { fetch: fetchMock }
+    );
+  });
+
+  it('should iterate over all pages of comments', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        jsonResponse({ comments: [comment('com1')], offset: 'page2' })
+      )
+      .mockResolvedValueOnce(jsonResponse({ comments: [comment('com2')] }));
+
+    const ids = [];
+    for await (const item of table.comments('rec123')) {
+      ids.push(item.id);
+    }
+
+    expect(ids).toEqual(['com1', 'com2']);
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://api.airtable.com/v0/appTest123/Tasks/rec123/comments'
+    );
+    expect(fetchMock.mock.calls[1][0]).toContain('offset=page2');
+  });
+
+  it('should create, update and delete comments', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(comment('com1')))
+      .mockResolvedValueOnce(jsonResponse(comment('com1')))
+      .mockResolvedValueOnce(jsonResponse({ id: 'com1', deleted: true }));
+    const comments = table.comments('rec123');
+
+    await comments.create(`Please review ${mention('usrReviewer')}`);
+    await comments.update('com1', 'Updated');
+    const deleted = await comments.delete('com1');
+
+    const [, createInit] = fetchMock.mock.calls[0];
+    expect(JSON.parse(createInit.body)).toEqual({
+      text: 'Please review @[usrReviewer]',
+    });
+    const [updateUrl, updateInit] = fetchMock.mock.calls[1];
+    expect(updateUrl).toBe(
+      'https://api.airtable.com/v0/appTest123/Tasks/rec123/comments/com1'
+    );
+    expect(updateInit.method).toBe('PATCH');
+    expect(deleted.deleted).toBe(true);
+  });
+
+  it('should surface API errors like other table methods', async () => {
+    fetchMock.mockResolvedValueOnce({
+      ok: false,
+      status: 404,
+      json: async () => ({
+        error: { type: 'NOT_FOUND', message: 'Record not found' },
+      }),
+    });
+
+    await expect(table.comments('recMissing').list()).rejects.toMatchObject({
+      statusCode: 404,
+      errorType: 'NOT_FOUND',
+    });
+  });
+});
+
+describe('mentions', () => {
+  it('should extract mentioned user and group IDs', () => {
+    expect(
+      extractMentions(`${mention('usrAlice')} and ${mention('ugpTeam')} @[x]`)
+    ).toEqual(['usrAlice', 'ugpTeam']);
+  });
+});
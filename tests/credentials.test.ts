@@ -0,0 +1,165 @@
+import { AirtableClient } from '../src/client';
+import { OAuthCredentials } from '../src/credentials';
+import { AuthenticationError } from '../src/errors';
+import { CredentialProvider, Credentials } from '../src/types';
+import { jsonResponse } from './helpers';
+
+describe('credentials', () => {
+  let fetchMock: jest.Mock;
+
+  const tokens = () =>
+    fetchMock.mock.calls.map(([, init]) => init.headers.Authorization);
+  const table = (credentials: CredentialProvider) =>
+    new AirtableClient({ credentials, fetch: fetchMock, rateLimit: false })
+      .base('appTest')
+      .table('Tasks');
+
+  beforeEach(() => {
+    fetchMock = jest.fn().mockResolvedValue(jsonResponse({ records: [] }));
+  });
+
+  it('should ask a provider function for the token of each request', async () => {
+    let count = 0;
+    const tasks = table(async () => `token${++count}`);
+
+    await tasks.listRecords();
+    await tasks.listRecords();
+
+    expect(tokens()).toEqual(['Bearer token1', 'Bearer token2']);
+  });
+
+  it('should send a request once more after refreshing a rejected token', async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({ error: { type: 'AUTHENTICATION_REQUIRED' } }, 401)
+    );
+    const credentials: Credentials = {
+      getToken: () => 'expired',
+      refresh: jest.fn(async () => 'fresh'),
+    };
+
+    await table(credentials).create({ fields: { Name: 'Task' } });
+
+    expect(credentials.refresh).toHaveBeenCalledWith('expired');
+    expect(tokens()).toEqual(['Bearer expired', 'Bearer fresh']);
+  });
+
+  it('should fail with the 401 when no new token is available', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({}, 401));
+    const refresh = jest.fn(async () => 'still-bad');
+
+    await expect(
+      table({ getToken: () => 'bad', refresh }).listRecords()
+    ).rejects.toBeInstanceOf(AuthenticationError);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    fetchMock.mockClear();
+    await expect(
+      table({ getToken: () => 'bad', refresh: () => undefined }).listRecords()
+    ).rejects.toMatchObject({ statusCode: 401 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should require an API key or credentials', () => {
+    expect(() => new AirtableClient({})).toThrow(
+      expect.objectContaining({ errorType: 'MISSING_CREDENTIALS' })
+    );
+  });
+});
+
+describe('OAuthCredentials', () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+  });
+
+  it('should refresh once for concurrent requests and keep the new refresh token', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        jsonResponse({
+          access_token: 'access1',
+          refresh_token: 'refresh2',
+          expires_in: 3600,
+        })
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          access_token: 'access2',
+          refresh_token: 'refresh3',
+          expires_in: 3600,
+        })
+      );
+    const onRefresh = jest.fn();
+    const credentials = new OAuthCredentials({
+      clientId: 'client',
+      clientSecret: 'secret',
+      refreshToken: 'refresh1',
+      fetch: fetchMock,
+      onRefresh,
+    });
+
+    const [first, second] = await Promise.all([
+      credentials.getToken(),
+      credentials.getToken(),
+    ]);
+    expect([first, second]).toEqual(['access1', 'access1']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://airtable.com/oauth2/v1/token');
+    expect(init.headers.Authorization).toBe(
+      `Basic ${Buffer.from('client:secret').toString('base64')}`
+    );
+    expect(init.body).toBe('grant_type=refresh_token&refresh_token=refresh1');
+    expect(onRefresh).toHaveBeenCalledWith({
+      accessToken: 'access1',
+      refreshToken: 'refresh2',
+      expiresAt: expect.any(Number),
+    });
+
+    // A token replaced in the meantime is not refreshed again
+    expect(await credentials.refresh('stale')).toBe('access1');
+    expect(await credentials.refresh('access1')).toBe('access2');
+    expect(fetchMock.mock.calls[1][1].body).toContain('refresh_token=refresh2');
+  });
+
+  it('should refresh an access token that is about to expire', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({ access_token: 'new', refresh_token: 'r2' })
+    );
+    const credentials = new OAuthCredentials({
+      clientId: 'client',
+      refreshToken: 'r1',
+      accessToken: 'old',
+      expiresAt: Date.now() + 30000,
+      fetch: fetchMock,
+    });
+
+    expect(await credentials.getToken()).toBe('new');
+    expect(fetchMock.mock.calls[0][1].body).toContain('client_id=client');
+  });
+
+  it('should report a rejected refresh token', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse(
+        {
+          error: 'invalid_grant',
+          error_description: 'The refresh token has expired',
+        },
+        400
+      )
+    );
+    const credentials = new OAuthCredentials({
+      clientId: 'client',
+      refreshToken: 'expired',
+      fetch: fetchMock,
+    });
+
+    await expect(credentials.getToken()).rejects.toMatchObject({
+      name: 'AuthenticationError',
+      errorType: 'invalid_grant',
+      message: expect.stringContaining('The refresh token has expired'),
+    });
+  });
+});
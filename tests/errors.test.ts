@@ -0,0 +1,146 @@
+import {
+  AirtableError,
+  AuthenticationError,
+  NotFoundError,
+  PermissionError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+  createApiError,
+} from '../src/errors';
+import { HttpClient } from '../src/http';
+import { AirtableTable } from '../src/table';
+
+describe('createApiError', () => {
+  const body = (type: string, message: string) => ({
+    error: { type, message },
+  });
+
+  it('should map statuses to error classes', () => {
+    expect(
+      createApiError(401, body('AUTHENTICATION_REQUIRED', 'No'))
+    ).toBeInstanceOf(AuthenticationError);
+    expect(createApiError(403, {})).toBeInstanceOf(PermissionError);
+    expect(createApiError(429, {})).toBeInstanceOf(RateLimitError);
+    expect(createApiError(502, {})).toBeInstanceOf(ServerError);
+    expect(createApiError(400, {})).toBeInstanceOf(AirtableError);
+  });
+
+  it('should tell missing tables from missing records', () => {
+    const table = createApiError(404, body('TABLE_NOT_FOUND', 'Missing'));
+    const record = createApiError(
+      404,
+      { error: 'NOT_FOUND' },
+      {
+        recordIds: ['recMissing'],
+      }
+    );
+
+    expect(table).toMatchObject({ resource: 'table' });
+    expect(record).toMatchObject({
+      resource: 'record',
+      errorType: 'NOT_FOUND',
+      message: 'Request failed with status 404',
+    });
+    expect(record).toBeInstanceOf(NotFoundError);
+  });
+
+  it('should expose the offending field of validation errors', () => {
+    const unknown = createApiError(
+      422,
+      body('UNKNOWN_FIELD_NAME', 'Unknown field name: "Stauts"')
+    );
+    const invalid = createApiError(
+      422,
+      body(
+        'INVALID_VALUE_FOR_COLUMN',
+        'Field "Budget" cannot accept the provided value'
+      )
+    );
+
+    expect(unknown).toBeInstanceOf(ValidationError);
+    expect((unknown as ValidationError).field).toBe('Stauts');
+    expect((invalid as ValidationError).field).toBe('Budget');
+  });
+
+  it('should flag retryable errors', () => {
+    expect(createApiError(503, {}).isRetryable).toBe(true);
+    expect(createApiError(422, {}).isRetryable).toBe(false);
+  });
+});
+
+describe('request context', () => {
+  let fetchMock: jest.Mock;
+  let table: AirtableTable;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    table = new AirtableTable(
+      'appTest123',
+      'My Tasks',
+      'test-key',
+      'https://api.airtable.com/v0',
+      { fetch: fetchMock, retry: false }
+    );
+  });
+
+  it('should attach the request, table and records to API errors', async () => {
+    const response = {
+      error: { type: 'NOT_FOUND', message: 'Could not find record' },
+    };
+    fetchMock.mockResolvedValueOnce({
+      ok: false,
+      status: 404,
+      json: async () => response,
+    });
+
+    const error = await table.find('recMissing').catch(e => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toMatchObject({
+      method: 'GET',
+      url: 'https://api.airtable.com/v0/appTest123/My%20Tasks/recMissing',
+      table: 'My Tasks',
+      recordIds: ['recMissing'],
+      resource: 'record',
+      responseBody: response,
+      isRetryable: false,
+    });
+  });
+
+  it('should collect record IDs from the body for network errors', async () => {
+    fetchMock.mockRejectedValueOnce(new Error('socket hang up'));
+
+    const error = await table
+      .updateRecords([{ id: 'rec1', fields: {} }])
+      .catch(e => e);
+
+    expect(error).toMatchObject({
+      errorType: 'NETWORK_ERROR',
+      method: 'PATCH',
+      table: 'My Tasks',
+      recordIds: ['rec1'],
+    });
+  });
+
+  it('should redact credentials from the URL', async () => {
+    const http = new HttpClient('test-key', { fetch: fetchMock, retry: false });
+    fetchMock.mockResolvedValueOnce({
+      ok: false,
+      status: 401,
+      json: async () => ({}),
+    });
+
+    const error = await http
+      .request<void>(
+        'GET',
+        'https://api.airtable.com/v0/appX/Tasks?api_key=test-key'
+      )
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error.url).toBe(
+      'https://api.airtable.com/v0/appX/Tasks?api_key=[REDACTED]'
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import { AirtableClient } from '../src/client';
+import { redactLogger } from '../src/events';
+import { AirtableEvent, Logger, Span, Tracer } from '../src/types';
+import { jsonResponse } from './helpers';
+
+describe('observability', () => {
+  let fetchMock: jest.Mock;
+
+  const client = (config: { logger?: Logger; tracer?: Tracer } = {}) =>
+    new AirtableClient({
+      apiKey: 'secret-key',
+      fetch: fetchMock,
+      rateLimit: false,
+      retry: { baseDelayMs: 1, jitter: false },
+      ...config,
+    });
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+  });
+
+  it('should emit request, response, retry and page events', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+      .mockResolvedValueOnce(jsonResponse({ records: [{ id: 'rec1' }] }));
+    const airtable = client();
+    const events: AirtableEvent[] = [];
+    airtable.on('*', event => events.push(event));
+
+    await airtable.base('appTest').table('Tasks').select();
+
+    expect(events.map(event => event.type)).toEqual([
+      'request',
+      'response',
+      'retry',
+      'request',
+      'response',
+      'page',
+    ]);
+    expect(events[1]).toMatchObject({
+      method: 'GET',
+      table: 'Tasks',
+      status: 503,
+      attempt: 1,
+    });
+    expect(events[4]).toMatchObject({ status: 200, attempt: 2 });
+    expect(events[5]).toEqual({ type: 'page', table: 'Tasks', records: 1 });
+  });
+
+  it('should report batch chunks and stop notifying removed listeners', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ records: [] }));
+    const airtable = client();
+    const listener = jest.fn();
+    const off = airtable.on('batchChunk', listener);
+    const table = airtable.base('appTest').table('Tasks');
+
+    await table.deleteBatch(Array.from({ length: 12 }, (_, i) => `rec${i}`));
+    off();
+    await table.deleteBatch(['rec1']);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls.map(([event]) => event.records)).toEqual([
+      10, 2,
+    ]);
+  });
+
+  it('should log events without the API key', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ records: [] }));
+    const logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+
+    await client({ logger })
+      .base('appTest')
+      .table('Tasks')
+      .listRecords({ filterByFormula: '{Key} = "secret-key"' });
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      expect.stringMatching(/^Sending GET .*\[REDACTED\]/),
+      expect.anything()
+    );
+    expect(JSON.stringify(logger.debug.mock.calls)).not.toContain('secret-key');
+  });
+
+  it('should wrap each call in a span', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({}, 500))
+      .mockResolvedValueOnce(jsonResponse({}, 404));
+    const span: jest.Mocked<Span> = {
+      setAttribute: jest.fn(),
+      setStatus: jest.fn(),
+      recordException: jest.fn(),
+      end: jest.fn(),
+    };
+    const tracer = { startSpan: jest.fn(() => span) };
+
+    await expect(
+      client({ tracer }).base('appTest').table('Tasks').find('recMissing')
+    ).rejects.toThrow();
+
+    expect(tracer.startSpan).toHaveBeenCalledTimes(1);
+    expect(tracer.startSpan).toHaveBeenCalledWith('Airtable GET', {
+      attributes: {
+        'http.request.method': 'GET',
+        'url.full': 'https://api.airtable.com/v0/appTest/Tasks/recMissing',
+        'airtable.table': 'Tasks',
+      },
+    });
+    expect(span.setAttribute).toHaveBeenCalledWith(
+      'http.response.status_code',
+      404
+    );
+    expect(span.setAttribute).toHaveBeenCalledWith(
+      'http.request.resend_count',
+      1
+    );
+    expect(span.setStatus).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 2 })
+    );
+    expect(span.end).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('redactLogger', () => {
+  it('should redact secrets in messages and nested data', () => {
+    const logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+
+    redactLogger(logger, ['key123']).warn('Using key123', {
+      headers: { Authorization: 'Bearer key123' },
+    });
+
+    expect(logger.warn).toHaveBeenCalledWith('Using [REDACTED]', {
+      headers: { Authorization: 'Bearer [REDACTED]' },
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { EXPAND_CHUNK_SIZE } from '../src/expand';
+import { AirtableTable } from '../src/table';
+import { jsonResponse } from './helpers';
+
+type Person = {
+  Name: string;
+  Manager?: string[];
+};
+
+type Project = {
+  Name: string;
+  Owners?: string[];
+};
+
+describe('linked record expansion', () => {
+  let fetchMock: jest.Mock;
+  let projects: AirtableTable<Project>;
+  let people: AirtableTable<Person>;
+
+  const record = (id: string, fields: object) => ({
+    id,
+    createdTime: '2024-01-01T00:00:00.000Z',
+    fields,
+  });
+  const formula = (call: number) =>
+    new URL(fetchMock.mock.calls[call][0]).searchParams.get('filterByFormula');
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    const table = <T extends Project | Person>(name: string) =>
+      new AirtableTable<T>(
+        'appTest123',
+        name,
+        'test-key',
+        'https://api.airtable.com/v0',
+        { fetch: fetchMock }
+      );
+    projects = table<Project>('Projects');
+    people = table<Person>('People');
+  });
+
+  it('should fetch linked records in one deduplicated query', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        jsonResponse({
+          records: [
+            record('recP1', { Name: 'Launch', Owners: ['recAda', 'recBob'] }),
+            record('recP2', { Name: 'Docs', Owners: ['recAda', 'recGone'] }),
+            record('recP3', { Name: 'Idle' }),
+          ],
+        })
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          records: [
+            record('recAda', { Name: 'Ada' }),
+            record('recBob', { Name: 'Bob' }),
+          ],
+        })
+      );
+
+    const result = await projects.select({ expand: { Owners: people } });
+
+    // Link fields are typed as linked records
+    const owner: string = result[0].fields.Owners![0].fields.Name;
+    expect(owner).toBe('Ada');
+    expect(result[1].fields.Owners!.map(person => person.id)).toEqual([
+      'recAda',
+    ]);
+    expect(result[2].fields.Owners).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(formula(1)).toBe(
+      'OR(RECORD_ID() = "recAda", RECORD_ID() = "recBob", RECORD_ID() = "recGone")'
+    );
+  });
+
+  it('should expand nested links up to the configured depth', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        jsonResponse(record('recP1', { Name: 'Launch', Owners: ['recAda'] }))
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          records: [record('recAda', { Name: 'Ada', Manager: ['recBoss'] })],
+        })
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({ records: [record('recBoss', { Name: 'Grace' })] })
+      );
+
+    const project = await projects.find('recP1', {
+      expand: { Owners: { table: people, expand: { Manager: people } } },
+    });
+    expect(project.fields.Owners![0].fields.Manager![0].fields.Name).toBe(
+      'Grace'
+    );
+
+    // Nesting deeper than expandDepth would leave IDs typed as records
+    await expect(
+      projects.find('recP1', {
+        expand: { Owners: { table: people, expand: { Manager: people } } },
+        expandDepth: 1,
+      })
+    ).rejects.toMatchObject({ errorType: 'INVALID_EXPAND_DEPTH' });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should fetch nested link fields left out of fields', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        jsonResponse({
+          records: [record('recP1', { Name: 'Launch', Owners: ['recAda'] })],
+        })
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          records: [record('recAda', { Name: 'Ada', Manager: ['recBoss'] })],
+        })
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({ records: [record('recBoss', { Name: 'Grace' })] })
+      );
+
+    const [project] = await projects.select({
+      expand: {
+        Owners: {
+          table: people,
+          fields: ['Name'],
+          expand: { Manager: people },
+        },
+      },
+    });
+
+    expect(
+      new URL(fetchMock.mock.calls[1][0]).searchParams.getAll('fields[]')
+    ).toEqual(['Name', 'Manager']);
+    expect(project.fields.Owners![0].fields.Manager![0].fields.Name).toBe(
+      'Grace'
+    );
+  });
+
+  it('should chunk large sets of linked IDs', async () => {
+    const ids = Array.from(
+      { length: EXPAND_CHUNK_SIZE + 1 },
+      (_, i) => `rec${i}`
+    );
+    fetchMock
+      .mockResolvedValueOnce(
+        jsonResponse({
+          records: [record('recP1', { Name: 'Big', Owners: ids })],
+        })
+      )
+      .mockResolvedValue(jsonResponse({ records: [] }));
+
+    await projects.select({ expand: { Owners: people } });
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(formula(2)).toBe(`OR(RECORD_ID() = "rec${EXPAND_CHUNK_SIZE}")`);
+  });
+});
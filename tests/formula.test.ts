@@ -0,0 +1,119 @@
+import {
+  Formula,
+  and,
+  datetimeDiff,
+  eq,
+  escapeString,
+  field,
+  find,
+  gt,
+  isAfter,
+  isBlank,
+  lastModifiedTime,
+  not,
+  or,
+  recordId,
+  search,
+  today,
+  value,
+} from '../src/formula';
+import * as formula from '../src/formula';
+import { AirtableTable } from '../src/table';
+
+type Project = {
+  Name: string;
+  Status: string;
+  Budget?: number;
+  EndDate?: string;
+};
+
+describe('formula', () => {
+  describe('value', () => {
+    it('should escape quotes and backslashes in strings', () => {
+      expect(escapeString('Say "hi" \\ bye')).toBe('"Say \\"hi\\" \\\\ bye"');
+      expect(value("It's\nfine").toString()).toBe('"It\'s\\nfine"');
+    });
+
+    it('should convert booleans, null, numbers and dates', () => {
+      expect(value(true).toString()).toBe('TRUE()');
+      expect(value(false).toString()).toBe('FALSE()');
+      expect(value(null).toString()).toBe('BLANK()');
+      expect(value(42.5).toString()).toBe('42.5');
+      expect(value(new Date('2024-01-01T00:00:00Z')).toString()).toBe(
+        'DATETIME_PARSE("2024-01-01T00:00:00.000Z")'
+      );
+    });
+
+    it('should reject values that have no formula representation', () => {
+      expect(() => value(NaN)).toThrow(TypeError);
+      expect(() => value(new Date('invalid'))).toThrow(TypeError);
+    });
+  });
+
+  describe('field', () => {
+    it('should wrap field names in braces', () => {
+      expect(field('Due Date').toString()).toBe('{Due Date}');
+      expect(field('Odd}Name').toString()).toBe('{Odd\\}Name}');
+    });
+  });
+
+  describe('builders', () => {
+    it('should compile logical and comparison expressions', () => {
+      const expression = formula.and(
+        eq('Status', 'Active'),
+        gt('Budget', 10000),
+        isAfter('EndDate', today())
+      );
+
+      expect(expression.toString()).toBe(
+        'AND({Status} = "Active", {Budget} > 10000, IS_AFTER({EndDate}, TODAY()))'
+      );
+    });
+
+    it('should compile function calls', () => {
+      expect(or(not(isBlank('Name')), eq(recordId(), 'rec1')).toString()).toBe(
+        'OR(NOT({Name} = BLANK()), RECORD_ID() = "rec1")'
+      );
+      expect(find('x', 'Name').toString()).toBe('FIND("x", {Name})');
+      expect(search('x', 'Name').toString()).toBe('SEARCH("x", {Name})');
+      expect(datetimeDiff('EndDate', today(), 'days').toString()).toBe(
+        'DATETIME_DIFF({EndDate}, TODAY(), "days")'
+      );
+      expect(lastModifiedTime('Name', 'Status').toString()).toBe(
+        'LAST_MODIFIED_TIME({Name}, {Status})'
+      );
+    });
+
+    it('should constrain field names to the record type', () => {
+      const expression: Formula<Project> = and(
+        eq('Status', 'Active'),
+        // @ts-expect-error misspelled field name
+        gt('Budgte', 1)
+      );
+      expect(expression).toBeInstanceOf(Formula);
+    });
+  });
+
+  describe('with listRecords', () => {
+    it('should send the compiled formula', async () => {
+      const fetchMock = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ records: [] }),
+      });
+      global.fetch = fetchMock;
+      const table = new AirtableTable<Project>(
+        'appTest123',
+        'Projects',
+        'test-key',
+        'https://api.airtable.com/v0'
+      );
+
+      await table.listRecords({ filterByFormula: eq('Status', 'Active') });
+
+      const url = new URL(fetchMock.mock.calls[0][0]);
+      expect(url.searchParams.get('filterByFormula')).toBe(
+        '{Status} = "Active"'
+      );
+    });
+  });
+});
@@ -0,0 +1,8 @@
+/**
+ * A fetch result with a JSON body, for tests that mock `fetch`
+ */
+export const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status < 400,
+  status,
+  json: async () => body,
+});
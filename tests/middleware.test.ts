@@ -0,0 +1,103 @@
+import { AirtableClient } from '../src/client';
+import { composeMiddleware, withHeaders } from '../src/middleware';
+import { AirtableRequest, Middleware } from '../src/types';
+
+const jsonResponse = (body: unknown) =>
+  ({ ok: true, status: 200, json: async () => body }) as Response;
+
+describe('middleware', () => {
+  const request: AirtableRequest = {
+    method: 'GET',
+    url: 'https://api.airtable.com/v0/appTest123/Tasks',
+    headers: { Authorization: 'Bearer test-key' },
+  };
+
+  describe('composeMiddleware', () => {
+    it('should run middleware in order around the fetch call', async () => {
+      const calls: string[] = [];
+      const fetchFn = jest.fn(async () => {
+        calls.push('fetch');
+        return jsonResponse({});
+      });
+      const trace =
+        (name: string): Middleware =>
+        async (req, next) => {
+          calls.push(`${name}:request`);
+          const response = await next(req);
+          calls.push(`${name}:response`);
+          return response;
+        };
+
+      await composeMiddleware(fetchFn, [trace('outer'), trace('inner')])(
+        request
+      );
+
+      expect(calls).toEqual([
+        'outer:request',
+        'inner:request',
+        'fetch',
+        'inner:response',
+        'outer:response',
+      ]);
+    });
+
+    it('should pass modified requests to the fetch implementation', async () => {
+      const fetchFn = jest.fn(async () => jsonResponse({}));
+
+      await composeMiddleware(fetchFn, [
+        withHeaders({ 'User-Agent': 'my-app/1.0' }),
+      ])(request);
+
+      expect(fetchFn).toHaveBeenCalledWith(request.url, {
+        method: 'GET',
+        headers: {
+          Authorization: 'Bearer test-key',
+          'User-Agent': 'my-app/1.0',
+        },
+        body: undefined,
+      });
+    });
+
+    it('should allow middleware to short-circuit the request', async () => {
+      const fetchFn = jest.fn();
+      const cached = jsonResponse({ cached: true });
+
+      const response = await composeMiddleware(fetchFn, [async () => cached])(
+        request
+      );
+
+      expect(response).toBe(cached);
+      expect(fetchFn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('with AirtableClient', () => {
+    it('should send table requests through the configured pipeline', async () => {
+      const fetchFn = jest.fn(async () =>
+        jsonResponse({ id: 'rec1', createdTime: '2024-01-01', fields: {} })
+      );
+      const seen: string[] = [];
+      const client = new AirtableClient({
+        apiKey: 'test-key',
+        fetch: fetchFn,
+        middleware: [
+          (req, next) => {
+            seen.push(`${req.method} ${req.url}`);
+            return next(req);
+          },
+        ],
+      });
+
+      const record = await client
+        .base('appTest123')
+        .table('Tasks')
+        .find('rec1');
+
+      expect(record.id).toBe('rec1');
+      expect(seen).toEqual([
+        'GET https://api.airtable.com/v0/appTest123/Tasks/rec1',
+      ]);
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+  });
+});
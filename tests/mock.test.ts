@@ -0,0 +1,249 @@
+import { AirtableClient } from '../src/client';
+import { AirtableError, RateLimitError } from '../src/errors';
+import { and, field, find, gte } from '../src/formula';
+import { MockAirtable } from '../src/mock';
+
+type Task = {
+  Name?: string;
+  Priority?: number;
+  Done?: boolean;
+  Status?: string;
+};
+
+describe('MockAirtable', () => {
+  let mock: MockAirtable;
+  let client: AirtableClient;
+
+  beforeEach(() => {
+    mock = new MockAirtable({ apiKey: 'test-key' });
+    mock.createTable('appTest', 'Tasks', {
+      fields: {
+        Name: 'singleLineText',
+        Priority: 'number',
+        Done: 'checkbox',
+        Status: { type: 'singleSelect', choices: ['Todo', 'Done'] },
+      },
+      records: [
+        { Name: 'Write docs', Priority: 2, Done: false },
+        { Name: 'Fix bug', Priority: 1, Done: true },
+        { Name: 'Release', Priority: 3, Done: false },
+      ],
+    });
+    client = new AirtableClient({
+      apiKey: 'test-key',
+      fetch: mock.fetch,
+      retry: false,
+      rateLimit: false,
+    });
+  });
+
+  const tasks = () => client.base('appTest').table<Task>('Tasks');
+
+  it('should list records with sorting, filtering and field selection', async () => {
+    const records = await tasks().select({
+      filterByFormula: 'NOT({Done})',
+      sort: [{ field: 'Priority', direction: 'desc' }],
+      fields: ['Name'],
+    });
+
+    expect(records.map(r => r.fields)).toEqual([
+      { Name: 'Release' },
+      { Name: 'Write docs' },
+    ]);
+  });
+
+  it('should list records sent over POST', async () => {
+    const records = await tasks().select({
+      method: 'POST',
+      filterByFormula: 'NOT({Done})',
+      sort: [{ field: 'Priority', direction: 'asc' }],
+    });
+
+    expect(records.map(r => r.fields.Name)).toEqual(['Write docs', 'Release']);
+    expect(mock.requests[0].method).toBe('POST');
+  });
+
+  it('should evaluate formulas built with the formula builder', async () => {
+    const records = await tasks().select({
+      filterByFormula: and(gte('Priority', 2), find('docs', field('Name'))),
+    });
+
+    expect(records.map(r => r.fields.Name)).toEqual(['Write docs']);
+    await expect(
+      tasks().select({ filterByFormula: 'REGEX_MATCH({Name}, "x")' })
+    ).rejects.toMatchObject({ errorType: 'INVALID_FILTER_BY_FORMULA' });
+  });
+
+  it('should paginate with offsets', async () => {
+    const pages = [];
+    for await (const page of tasks().pages({ pageSize: 2 })) {
+      pages.push(page.records.map(r => r.fields.Name));
+    }
+
+    expect(pages).toEqual([['Write docs', 'Fix bug'], ['Release']]);
+  });
+
+  it('should create, update and delete records', async () => {
+    const created = await tasks().create({
+      fields: { Name: 'New', Priority: 5 },
+    });
+    await tasks().update(created.id, { Done: true });
+    expect(await tasks().find(created.id)).toMatchObject({
+      fields: { Name: 'New', Priority: 5, Done: true },
+    });
+
+    await tasks().delete(created.id);
+    await expect(tasks().find(created.id)).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+
+  it('should upsert on merge fields', async () => {
+    const result = await tasks().upsert(
+      [
+        { fields: { Name: 'Fix bug', Priority: 9 } },
+        { fields: { Name: 'Other' } },
+      ],
+      { fieldsToMergeOn: ['Name'] }
+    );
+
+    expect(result.updatedRecords).toHaveLength(1);
+    expect(result.createdRecords).toHaveLength(1);
+    expect(mock.getRecords('appTest', 'Tasks')).toHaveLength(4);
+  });
+
+  it('should enforce the 10 record limit per request', async () => {
+    const records = Array.from({ length: 11 }, (_, i) => ({
+      fields: { Name: `T${i}` },
+    }));
+
+    await expect(
+      mock
+        .fetch('https://api.airtable.com/v0/appTest/Tasks', {
+          method: 'POST',
+          headers: { Authorization: 'Bearer test-key' },
+          body: JSON.stringify({ records }),
+        })
+        .then(response => response.status)
+    ).resolves.toBe(422);
+
+    await tasks().createBatch(records);
+    expect(mock.getRecords('appTest', 'Tasks')).toHaveLength(14);
+  });
+
+  it('should validate values unless typecast is set', async () => {
+    await expect(
+      tasks().create({
+        fields: { Priority: '4' as unknown as number },
+      })
+    ).rejects.toMatchObject({
+      statusCode: 422,
+      errorType: 'INVALID_VALUE_FOR_COLUMN',
+    });
+    await expect(
+      tasks().create({ fields: { Status: 'Blocked' } })
+    ).rejects.toMatchObject({
+      errorType: 'INVALID_MULTIPLE_CHOICE_OPTIONS',
+    });
+
+    const record = await tasks().create(
+      { fields: { Priority: '4' as unknown as number, Status: 'Blocked' } },
+      { typecast: true }
+    );
+    expect(record.fields).toEqual({ Priority: 4, Status: 'Blocked' });
+  });
+
+  it('should reject a whole request when one record is invalid', async () => {
+    await expect(
+      tasks().createRecords([
+        { fields: { Name: 'Valid' } },
+        { fields: { Priority: 'high' as unknown as number } },
+      ])
+    ).rejects.toMatchObject({ errorType: 'INVALID_VALUE_FOR_COLUMN' });
+    expect(mock.getRecords('appTest', 'Tasks')).toHaveLength(3);
+
+    const [first, second] = mock.getRecords('appTest', 'Tasks');
+    await expect(
+      tasks().updateRecords([
+        { id: first.id, fields: { Name: 'Renamed' } },
+        { id: second.id, fields: { Owner: 'me' } as Task },
+      ])
+    ).rejects.toMatchObject({ errorType: 'UNKNOWN_FIELD_NAME' });
+    await expect(
+      tasks().upsert(
+        [
+          { fields: { Name: 'New task' } },
+          { fields: { Name: 'Fix bug', Status: 'Blocked' } },
+        ],
+        { fieldsToMergeOn: ['Name'] }
+      )
+    ).rejects.toMatchObject({ errorType: 'INVALID_MULTIPLE_CHOICE_OPTIONS' });
+    expect(
+      mock.getRecords('appTest', 'Tasks').map(record => record.fields.Name)
+    ).toEqual(['Write docs', 'Fix bug', 'Release']);
+  });
+
+  it('should reject unknown fields and tables', async () => {
+    await expect(
+      tasks().create({ fields: { Owner: 'me' } as Task })
+    ).rejects.toMatchObject({ errorType: 'UNKNOWN_FIELD_NAME' });
+    await expect(
+      client.base('appTest').table('Missing').select()
+    ).rejects.toMatchObject({ statusCode: 404, errorType: 'TABLE_NOT_FOUND' });
+  });
+
+  it('should require the configured API key', async () => {
+    const other = new AirtableClient({ apiKey: 'wrong', fetch: mock.fetch });
+
+    await expect(
+      other.base('appTest').table('Tasks').select()
+    ).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('should inject errors', async () => {
+    mock.injectError({ status: 429, method: 'GET', retryAfter: 1 });
+
+    const error = await tasks()
+      .select()
+      .catch(e => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBe(1000);
+
+    mock.injectError({
+      status: 422,
+      type: 'INVALID_REQUEST_UNKNOWN',
+      times: 2,
+    });
+    await expect(tasks().select()).rejects.toBeInstanceOf(AirtableError);
+    await expect(tasks().select()).rejects.toBeInstanceOf(AirtableError);
+    await expect(tasks().select()).resolves.toHaveLength(3);
+  });
+
+  it('should serve the API over HTTP', async () => {
+    const server = await mock.listen();
+    try {
+      const remote = new AirtableClient({
+        apiKey: 'test-key',
+        baseUrl: server.url,
+      });
+      const records = await remote
+        .base('appTest')
+        .table<Task>('Tasks')
+        .select({ filterByFormula: '{Priority} >= 2' });
+
+      expect(records).toHaveLength(2);
+
+      const response = await fetch(`${server.url}/appTest/Tasks`, {
+        method: 'POST',
+        headers: { Authorization: 'Bearer test-key' },
+        body: '{bad',
+      });
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({
+        error: { type: 'INVALID_REQUEST_BODY' },
+      });
+    } finally {
+      await server.close();
+    }
+  });
+});
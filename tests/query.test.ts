@@ -0,0 +1,113 @@
+import { gt } from '../src/formula';
+import { AirtableTable } from '../src/table';
+import { jsonResponse } from './helpers';
+
+type Project = {
+  Name: string;
+  Budget: number;
+  StartDate: string;
+};
+
+describe('AirtableQuery', () => {
+  let fetchMock: jest.Mock;
+  let table: AirtableTable<Project>;
+
+  const record = (id: string) => ({
+    id,
+    createdTime: '2024-01-01T00:00:00.000Z',
+    fields: { Name: id, Budget: 100 },
+  });
+  const params = (call: number) =>
+    new URL(fetchMock.mock.calls[call][0]).searchParams;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    table = new AirtableTable<Project>(
+      'appTest123',
+      'Projects',
+      'test-key',
+      'https://api.airtable.com/v0',
+      { fetch: fetchMock }
+    );
+  });
+
+  it('should compile to listRecords options', () => {
+    const query = table
+      .query()
+      .select('Name', 'Budget')
+      .where(gt('Budget', 1000))
+      .where('{Name} != ""')
+      .orderBy('StartDate')
+      .orderBy('Budget', 'desc')
+      .view('Grid')
+      .limit(100);
+
+    const options = query.toOptions();
+    expect(options).toMatchObject({
+      fields: ['Name', 'Budget'],
+      sort: [
+        { field: 'StartDate', direction: 'asc' },
+        { field: 'Budget', direction: 'desc' },
+      ],
+      view: 'Grid',
+      maxRecords: 100,
+    });
+    expect(String(options.filterByFormula)).toBe(
+      'AND({Budget} > 1000, {Name} != "")'
+    );
+  });
+
+  it('should not change the query it was built from', () => {
+    const base = table.query().orderBy('Name');
+    base.orderBy('Budget').limit(5);
+
+    expect(base.toOptions()).toEqual({
+      sort: [{ field: 'Name', direction: 'asc' }],
+    });
+  });
+
+  it('should fetch all records with the selected fields', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        jsonResponse({ records: [record('rec1')], offset: 'page2' })
+      )
+      .mockResolvedValueOnce(jsonResponse({ records: [record('rec2')] }));
+
+    const records = await table.query().select('Name').all();
+
+    // Only the selected fields are on the record type
+    const names: string[] = records.map(r => r.fields.Name);
+    // @ts-expect-error Budget was not selected
+    expect(records[0].fields.Budget).toBe(100);
+    expect(names).toEqual(['rec1', 'rec2']);
+    expect(params(0).getAll('fields[]')).toEqual(['Name']);
+    expect(params(1).get('offset')).toBe('page2');
+  });
+
+  it('should get the first record, a page, a count and iterate', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ records: [record('rec1')] }));
+    const query = table.query().where(gt('Budget', 10));
+
+    expect((await query.first())?.id).toBe('rec1');
+    expect(params(0).get('maxRecords')).toBe('1');
+
+    const page = await query.page('itr5');
+    expect(page.records).toHaveLength(1);
+    expect(params(1).get('offset')).toBe('itr5');
+
+    expect(await query.count()).toBe(1);
+    const [countUrl, countInit] = fetchMock.mock.calls[2];
+    expect(countUrl).toMatch(/\/listRecords$/);
+    expect(JSON.parse(countInit.body)).toEqual({
+      fields: [],
+      filterByFormula: '{Budget} > 10',
+    });
+
+    const ids = [];
+    for await (const item of query) {
+      ids.push(item.id);
+    }
+    expect(ids).toEqual(['rec1']);
+    expect(params(3).get('filterByFormula')).toBe('{Budget} > 10');
+  });
+});
@@ -0,0 +1,74 @@
+import { RateLimiter } from '../src/rate-limiter';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should let a burst of requests through immediately', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 5 });
+
+    await Promise.all(Array.from({ length: 5 }, () => limiter.acquire()));
+
+    expect(limiter.getStats()).toMatchObject({
+      queueDepth: 0,
+      totalRequests: 5,
+      throttledRequests: 0,
+    });
+  });
+
+  it('should queue requests beyond the burst until tokens refill', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 5, burst: 1 });
+    const released: number[] = [];
+
+    for (let i = 0; i < 3; i++) {
+      limiter.acquire().then(() => released.push(i));
+    }
+    await Promise.resolve();
+
+    expect(released).toEqual([0]);
+    expect(limiter.getStats().queueDepth).toBe(2);
+    expect(limiter.getStats().estimatedWaitMs).toBe(600);
+
+    await jest.advanceTimersByTimeAsync(200);
+    expect(released).toEqual([0, 1]);
+
+    await jest.advanceTimersByTimeAsync(200);
+    expect(released).toEqual([0, 1, 2]);
+    expect(limiter.getStats()).toMatchObject({
+      queueDepth: 0,
+      throttledRequests: 2,
+      totalWaitMs: 600,
+    });
+  });
+
+  it('should drop aborted requests from the queue', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1, burst: 1 });
+    await limiter.acquire();
+
+    const controller = new AbortController();
+    const aborted = Array.from({ length: 3 }, () =>
+      limiter.acquire(controller.signal)
+    );
+    const next = limiter.acquire();
+    controller.abort();
+
+    for (const request of aborted) {
+      await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+    }
+    expect(limiter.getStats().queueDepth).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await next;
+    expect(limiter.getStats()).toMatchObject({
+      queueDepth: 0,
+      totalRequests: 2,
+      throttledRequests: 1,
+      totalWaitMs: 1000,
+    });
+  });
+});
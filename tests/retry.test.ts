@@ -0,0 +1,81 @@
+import { AirtableError, RateLimitError } from '../src/errors';
+import {
+  getRetryDelay,
+  isRetryable,
+  parseRetryAfter,
+  resolveRetryOptions,
+} from '../src/retry';
+
+describe('retry', () => {
+  const options = resolveRetryOptions({ jitter: false });
+
+  describe('resolveRetryOptions', () => {
+    it('should disable retries when set to false', () => {
+      expect(resolveRetryOptions(false).maxAttempts).toBe(1);
+    });
+
+    it('should merge user options with the defaults', () => {
+      const resolved = resolveRetryOptions({ maxAttempts: 5 });
+      expect(resolved.maxAttempts).toBe(5);
+      expect(resolved.rateLimitDelayMs).toBe(30000);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delay in seconds', () => {
+      expect(parseRetryAfter('2')).toBe(2000);
+    });
+
+    it('should parse an HTTP date', () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+    });
+
+    it('should ignore missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  describe('isRetryable', () => {
+    it('should retry server errors for idempotent methods only', () => {
+      const error = new AirtableError('Server error', 503);
+      expect(isRetryable(error, 'GET', options)).toBe(true);
+      expect(isRetryable(error, 'POST', options)).toBe(false);
+    });
+
+    it('should always retry rate limit errors', () => {
+      const error = new RateLimitError('Rate limit exceeded');
+      expect(isRetryable(error, 'POST', options)).toBe(true);
+    });
+
+    it('should honor retryable error types', () => {
+      const error = new AirtableError(
+        'Network error',
+        undefined,
+        'NETWORK_ERROR'
+      );
+      expect(isRetryable(error, 'DELETE', options)).toBe(true);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should back off exponentially up to the maximum delay', () => {
+      const error = new AirtableError('Server error', 500);
+      expect(getRetryDelay(error, 1, options)).toBe(500);
+      expect(getRetryDelay(error, 3, options)).toBe(2000);
+      expect(getRetryDelay(error, 10, options)).toBe(10000);
+    });
+
+    it('should wait out the rate limit penalty after a 429', () => {
+      const error = new RateLimitError('Rate limit exceeded');
+      expect(getRetryDelay(error, 1, options)).toBe(30000);
+    });
+
+    it('should prefer the Retry-After delay', () => {
+      const error = new RateLimitError('Rate limit exceeded');
+      error.retryAfterMs = 1500;
+      expect(getRetryDelay(error, 1, options)).toBe(1500);
+    });
+  });
+});
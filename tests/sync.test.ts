@@ -0,0 +1,137 @@
+import { AirtableClient } from '../src/client';
+import { MockAirtable } from '../src/mock';
+import { AirtableTable } from '../src/table';
+import { valuesEqual } from '../src/sync';
+
+type Product = {
+  SKU?: string;
+  Name?: string;
+  Price?: number;
+  Launch?: string;
+};
+
+describe('sync', () => {
+  let mock: MockAirtable;
+  let table: AirtableTable<Product>;
+
+  beforeEach(() => {
+    mock = new MockAirtable({ apiKey: 'test-key' });
+    mock.createTable('appShop', 'Products', {
+      fields: {
+        SKU: 'singleLineText',
+        Name: 'singleLineText',
+        Price: 'number',
+        Launch: 'date',
+      },
+      records: [
+        { SKU: 'A1', Name: 'Anvil', Price: 10, Launch: '2024-03-01' },
+        { SKU: 'B2', Name: 'Bolt', Price: 1 },
+        { SKU: 'C3', Name: 'Crate', Price: 5 },
+      ],
+    });
+    table = new AirtableClient({
+      apiKey: 'test-key',
+      fetch: mock.fetch,
+      rateLimit: false,
+    })
+      .base('appShop')
+      .table<Product>('Products');
+  });
+
+  const local: Product[] = [
+    { SKU: 'A1', Name: 'Anvil', Price: 10, Launch: '2024-03-01' },
+    { SKU: 'B2', Name: 'Bolt', Price: 2 },
+    { SKU: 'D4', Name: 'Drill', Price: 50 },
+  ];
+
+  it('should return the plan without writing in dry-run mode', async () => {
+    const result = await table.sync(local, {
+      keyFields: ['SKU'],
+      deleteMissing: true,
+      dryRun: true,
+    });
+
+    expect(result.plan.creates).toEqual([
+      { fields: { SKU: 'D4', Name: 'Drill', Price: 50 } },
+    ]);
+    expect(result.plan.updates).toEqual([
+      { id: expect.any(String), fields: { Price: 2 } },
+    ]);
+    expect(result.plan.deletes.map(r => r.fields.SKU)).toEqual(['C3']);
+    expect(result.summary).toEqual({
+      created: 1,
+      updated: 1,
+      deleted: 1,
+      unchanged: 1,
+      failed: 0,
+    });
+    expect(mock.requests.map(request => request.method)).toEqual(['GET']);
+  });
+
+  it('should apply the plan in batches', async () => {
+    const result = await table.sync(local, {
+      keyFields: ['SKU'],
+      deleteMissing: true,
+    });
+
+    expect(result.summary).toMatchObject({
+      created: 1,
+      updated: 1,
+      deleted: 1,
+    });
+    expect(
+      mock
+        .getRecords('appShop', 'Products')
+        .map(record => [record.fields.SKU, record.fields.Price])
+    ).toEqual([
+      ['A1', 10],
+      ['B2', 2],
+      ['D4', 50],
+    ]);
+
+    const again = await table.sync(local, { keyFields: ['SKU'] });
+    expect(again.summary.unchanged).toBe(3);
+  });
+
+  it('should reject duplicate local keys', async () => {
+    await expect(
+      table.sync([{ SKU: 'A1' }, { SKU: 'A1' }], { keyFields: ['SKU'] })
+    ).rejects.toMatchObject({ errorType: 'DUPLICATE_SYNC_KEY' });
+  });
+});
+
+describe('valuesEqual', () => {
+  it('should treat empty values as equal', () => {
+    expect(valuesEqual(undefined, '')).toBe(true);
+    expect(valuesEqual([], null)).toBe(true);
+    expect(valuesEqual(false, undefined)).toBe(true);
+    expect(valuesEqual(0, undefined)).toBe(false);
+  });
+
+  it('should compare dates across formats', () => {
+    expect(
+      valuesEqual(new Date('2024-03-01T10:00:00Z'), '2024-03-01T10:00:00.000Z')
+    ).toBe(true);
+    expect(valuesEqual(new Date('2024-03-01T10:00:00Z'), '2024-03-01')).toBe(
+      true
+    );
+    expect(valuesEqual('2024-03-01', '2024-03-02')).toBe(false);
+  });
+
+  it('should compare arrays, attachments and collaborators', () => {
+    expect(valuesEqual(['recA', 'recB'], ['recA', 'recB'])).toBe(true);
+    expect(valuesEqual(['recA', 'recB'], ['recB', 'recA'])).toBe(false);
+    expect(
+      valuesEqual(
+        [{ url: 'https://example.com/files/logo.png' }],
+        [{ id: 'att1', url: 'https://dl.airtable.com/x', filename: 'logo.png' }]
+      )
+    ).toBe(true);
+    expect(
+      valuesEqual(
+        { email: 'ada@example.com' },
+        { id: 'usr1', email: 'ada@example.com', name: 'Ada' }
+      )
+    ).toBe(true);
+  });
+});
@@ -1,5 +1,10 @@
 import { AirtableTable } from '../src/table';
-import { AirtableError } from '../src/errors';
+import {
+  AbortError,
+  AirtableError,
+  RateLimitError,
+  TimeoutError,
+} from '../src/errors';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -14,7 +19,7 @@ describe('AirtableTable', () => {
       'test-key',
       'https://api.airtable.com/v0'
     );
-    jest.clearAllMocks();
+    jest.resetAllMocks();
   });
 
   describe('select', () => {
@@ -50,6 +55,77 @@ describe('AirtableTable', () => {
     });
   });
 
+  describe('iterate', () => {
+    const page = (ids: string[], offset?: string) => ({
+      ok: true,
+      json: async () => ({
+        records: ids.map(id => ({ id, createdTime: '2024-01-01', fields: {} })),
+        offset,
+      }),
+    });
+
+    it('should yield records across pages', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(page(['rec1', 'rec2'], 'offset1'))
+        .mockResolvedValueOnce(page(['rec3']));
+
+      const ids: string[] = [];
+      for await (const record of table.iterate()) {
+        ids.push(record.id);
+      }
+
+      expect(ids).toEqual(['rec1', 'rec2', 'rec3']);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop fetching pages after an early break', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(page(['rec1', 'rec2'], 'offset1'))
+        .mockResolvedValueOnce(page(['rec3']));
+
+      for await (const record of table.iterate()) {
+        if (record.id === 'rec1') {
+          break;
+        }
+      }
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop once maxRecords have been yielded', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(page(['rec1', 'rec2'], 'offset1'))
+        .mockResolvedValueOnce(page(['rec3', 'rec4'], 'offset2'));
+
+      const ids: string[] = [];
+      for await (const record of table.iterate({ maxRecords: 3 })) {
+        ids.push(record.id);
+      }
+
+      expect(ids).toEqual(['rec1', 'rec2', 'rec3']);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('pages', () => {
+    it('should resume from an offset cursor', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ records: [] }),
+      });
+
+      const offsets: Array<string | undefined> = [];
+      for await (const response of table.pages({ offset: 'offset1' })) {
+        offsets.push(response.offset);
+      }
+
+      expect(offsets).toEqual([undefined]);
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).toContain(
+        'offset=offset1'
+      );
+    });
+  });
+
   describe('create', () => {
     it('should create a single record', async () => {
       const mockRecord = {
@@ -84,6 +160,75 @@ describe('AirtableTable', () => {
     });
   });
 
+  describe('upsert', () => {
+    it('should send performUpsert and report created and updated records', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          records: [
+            { id: 'rec1', createdTime: '2024-01-01', fields: { Name: 'A' } },
+            { id: 'rec2', createdTime: '2024-01-01', fields: { Name: 'B' } },
+          ],
+          createdRecords: ['rec2'],
+          updatedRecords: ['rec1'],
+        }),
+      });
+
+      const result = await table.upsert(
+        [{ fields: { Name: 'A' } }, { fields: { Name: 'B' } }],
+        { fieldsToMergeOn: ['Name'], typecast: true }
+      );
+
+      const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toBe('https://api.airtable.com/v0/appTest123/Table%20Name');
+      expect(init.method).toBe('PATCH');
+      expect(JSON.parse(init.body)).toEqual({
+        records: [{ fields: { Name: 'A' } }, { fields: { Name: 'B' } }],
+        performUpsert: { fieldsToMergeOn: ['Name'] },
+        typecast: true,
+      });
+      expect(result.createdRecords).toEqual(['rec2']);
+      expect(result.updatedRecords).toEqual(['rec1']);
+    });
+
+    it('should throw error when upserting more than 10 records', async () => {
+      const records = Array.from({ length: 11 }, (_, i) => ({
+        fields: { Name: `Record ${i}` },
+      }));
+
+      await expect(
+        table.upsert(records, { fieldsToMergeOn: ['Name'] })
+      ).rejects.toThrow('Cannot upsert more than 10 records at once');
+    });
+  });
+
+  describe('upsertBatch', () => {
+    it('should upsert in chunks of 10 and merge the results', async () => {
+      const respond = (ids: string[], created: string[]) => ({
+        ok: true,
+        json: async () => ({
+          records: ids.map(id => ({ id, createdTime: '', fields: {} })),
+          createdRecords: created,
+          updatedRecords: ids.filter(id => !created.includes(id)),
+        }),
+      });
+      const ids = Array.from({ length: 12 }, (_, i) => `rec${i}`);
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(respond(ids.slice(0, 10), ['rec0']))
+        .mockResolvedValueOnce(respond(ids.slice(10), ['rec11']));
+
+      const result = await table.upsertBatch(
+        ids.map(id => ({ fields: { Name: id } })),
+        { fieldsToMergeOn: ['Name'] }
+      );
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(result.records).toHaveLength(12);
+      expect(result.createdRecords).toEqual(['rec0', 'rec11']);
+      expect(result.updatedRecords).toHaveLength(10);
+    });
+  });
+
   describe('find', () => {
     it('should fetch a single record by ID', async () => {
       const mockRecord = {
@@ -102,6 +247,96 @@ describe('AirtableTable', () => {
       expect(record.id).toBe('rec123');
       expect(record.fields.Name).toBe('Test Record');
     });
+
+    it('should send cell format options', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 'rec123', createdTime: '', fields: {} }),
+      });
+
+      await table.find('rec123', {
+        cellFormat: 'string',
+        timeZone: 'Europe/Paris',
+        userLocale: 'fr',
+        returnFieldsByFieldId: true,
+      });
+
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe(
+        'https://api.airtable.com/v0/appTest123/Table%20Name/rec123?cellFormat=string&timeZone=Europe%2FParis&userLocale=fr&returnFieldsByFieldId=true'
+      );
+    });
+  });
+
+  describe('listRecords over POST', () => {
+    const respond = () =>
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ records: [] }),
+      });
+
+    it('should switch to POST when the URL would be too long', async () => {
+      respond();
+      const fields = Array.from({ length: 1000 }, (_, i) => `Field ${i}`);
+
+      await table.listRecords({
+        fields,
+        sort: [{ field: 'Field 1', direction: 'desc' }],
+      });
+
+      const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toBe(
+        'https://api.airtable.com/v0/appTest123/Table%20Name/listRecords'
+      );
+      expect(init.method).toBe('POST');
+      expect(JSON.parse(init.body)).toEqual({
+        fields,
+        sort: [{ field: 'Field 1', direction: 'desc' }],
+      });
+    });
+
+    it('should use POST on request and retry it like a read', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        json: async () => ({}),
+      });
+      respond();
+      table = new AirtableTable(
+        'appTest123',
+        'Table Name',
+        'test-key',
+        'https://api.airtable.com/v0',
+        { retry: { baseDelayMs: 1, jitter: false } }
+      );
+
+      await table.listRecords({ method: 'POST', pageSize: 5 });
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      const [, init] = (global.fetch as jest.Mock).mock.calls[1];
+      expect(JSON.parse(init.body)).toEqual({ pageSize: 5 });
+    });
+  });
+
+  describe('find with several IDs', () => {
+    it('should return records in the order of their IDs', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+        const id = url.split('/').pop();
+        await new Promise(resolve =>
+          setTimeout(resolve, id === 'rec1' ? 10 : 0)
+        );
+        return {
+          ok: true,
+          json: async () => ({ id, createdTime: '2024-01-01', fields: {} }),
+        };
+      });
+
+      const records = await table.find(['rec1', 'rec2', 'rec3'], {
+        concurrency: 3,
+      });
+
+      expect(records.map(r => r.id)).toEqual(['rec1', 'rec2', 'rec3']);
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
   });
 
   describe('error handling', () => {
@@ -121,6 +356,13 @@ describe('AirtableTable', () => {
     });
 
     it('should throw RateLimitError on 429 status', async () => {
+      table = new AirtableTable(
+        'appTest123',
+        'Table Name',
+        'test-key',
+        'https://api.airtable.com/v0',
+        { retry: false }
+      );
       (global.fetch as jest.Mock).mockResolvedValueOnce({
         ok: false,
         status: 429,
@@ -135,4 +377,269 @@ describe('AirtableTable', () => {
       await expect(table.find('rec123')).rejects.toThrow('Rate limit exceeded');
     });
   });
+
+  describe('retry', () => {
+    const failure = (status: number, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      headers: new Headers(headers),
+      json: async () => ({ error: { type: 'ERROR', message: 'Failed' } }),
+    });
+    const success = (body: unknown) => ({ ok: true, json: async () => body });
+
+    beforeEach(() => {
+      table = new AirtableTable(
+        'appTest123',
+        'Table Name',
+        'test-key',
+        'https://api.airtable.com/v0',
+        { retry: { baseDelayMs: 1, rateLimitDelayMs: 1, jitter: false } }
+      );
+    });
+
+    it('should retry server errors and resolve once a request succeeds', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(failure(503))
+        .mockResolvedValueOnce(failure(502))
+        .mockResolvedValueOnce(
+          success({ id: 'rec123', createdTime: '2024-01-01', fields: {} })
+        );
+
+      const record = await table.find('rec123');
+
+      expect(record.id).toBe('rec123');
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should report the number of attempts on the final error', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(failure(429));
+
+      const error = await table.find('rec123').catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.attempts).toBe(3);
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry client errors', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(failure(422));
+
+      const error = await table.find('rec123').catch(e => e);
+
+      expect(error.attempts).toBe(1);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry POST requests only after a 429', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(failure(500));
+      await expect(table.create({ fields: { Name: 'A' } })).rejects.toThrow(
+        AirtableError
+      );
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+
+      jest.resetAllMocks();
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(failure(429))
+        .mockResolvedValueOnce(
+          success({
+            records: [{ id: 'recNew', createdTime: '2024-01-01', fields: {} }],
+          })
+        );
+      const record = await table.create({ fields: { Name: 'A' } });
+      expect(record.id).toBe('recNew');
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry network failures for idempotent requests', async () => {
+      (global.fetch as jest.Mock)
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(
+          success({ id: 'rec123', createdTime: '2024-01-01', fields: {} })
+        );
+
+      const record = await table.find('rec123');
+
+      expect(record.id).toBe('rec123');
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('cancellation', () => {
+    const page = (offset?: string) => ({
+      ok: true,
+      json: async () => ({
+        records: [{ id: 'rec1', createdTime: '2024-01-01', fields: {} }],
+        offset,
+      }),
+    });
+    const hang = (_url: string, init: RequestInit) =>
+      new Promise<Response>((_resolve, reject) =>
+        init.signal?.addEventListener('abort', () =>
+          reject(new Error('aborted'))
+        )
+      );
+
+    it('should time out hung requests', async () => {
+      (global.fetch as jest.Mock).mockImplementation(hang);
+
+      const error = await table.find('rec123', { timeoutMs: 20 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error.timeoutMs).toBe(20);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply the default timeout from the options', async () => {
+      table = new AirtableTable(
+        'appTest123',
+        'Table Name',
+        'test-key',
+        'https://api.airtable.com/v0',
+        { timeoutMs: 20 }
+      );
+      (global.fetch as jest.Mock).mockImplementation(hang);
+
+      await expect(table.select()).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it('should abort in-flight requests', async () => {
+      (global.fetch as jest.Mock).mockImplementation(hang);
+      const controller = new AbortController();
+
+      const result = table.select({ signal: controller.signal });
+      controller.abort();
+
+      await expect(result).rejects.toBeInstanceOf(AbortError);
+    });
+
+    it('should stop paginating once aborted', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(page('next'));
+      const controller = new AbortController();
+      const seen: string[] = [];
+
+      await expect(
+        (async () => {
+          for await (const record of table.iterate({
+            signal: controller.signal,
+          })) {
+            seen.push(record.id);
+            controller.abort();
+          }
+        })()
+      ).rejects.toBeInstanceOf(AbortError);
+      expect(seen).toEqual(['rec1']);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop batch loops between chunks', async () => {
+      const controller = new AbortController();
+      (global.fetch as jest.Mock).mockImplementation(async () => {
+        controller.abort();
+        return { ok: true, json: async () => ({ records: [] }) };
+      });
+      const ids = Array.from({ length: 25 }, (_, i) => `rec${i}`);
+
+      await expect(
+        table.deleteBatch(ids, { signal: controller.signal })
+      ).rejects.toBeInstanceOf(AbortError);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('batch results', () => {
+    const records = Array.from({ length: 25 }, (_, i) => ({
+      fields: { Name: `Record ${i}` },
+    }));
+    const created = (body: string) => ({
+      ok: true,
+      json: async () => ({
+        records: JSON.parse(body).records.map(
+          (record: { fields: object }, i: number) => ({
+            id: `rec${i}`,
+            createdTime: '2024-01-01',
+            fields: record.fields,
+          })
+        ),
+      }),
+    });
+    const failure = {
+      ok: false,
+      status: 422,
+      json: async () => ({
+        error: { type: 'INVALID_VALUE_FOR_COLUMN', message: 'Bad value' },
+      }),
+    };
+
+    it('should report written records and the failed chunk', async () => {
+      (global.fetch as jest.Mock)
+        .mockImplementationOnce((_url, init) => created(init.body))
+        .mockResolvedValueOnce(failure);
+
+      const result = await table.createBatch(records, { returnResult: true });
+
+      expect(result.succeeded).toHaveLength(10);
+      expect(result.failed).toHaveLength(1);
+      expect(result.failed[0].indices[0]).toBe(10);
+      expect(result.failed[0].input[0]).toEqual(records[10]);
+      expect(result.failed[0].error.errorType).toBe('INVALID_VALUE_FOR_COLUMN');
+      expect(result.resumeToken).toBe('10-24');
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should continue past failed chunks and resume them', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(failure)
+        .mockImplementation((_url, init) => created(init.body));
+
+      const result = await table.createBatch(records, {
+        returnResult: true,
+        continueOnError: true,
+      });
+      expect(result.succeeded).toHaveLength(15);
+      expect(result.resumeToken).toBe('0-9');
+
+      const resumed = await table.createBatch(records, {
+        returnResult: true,
+        resumeToken: result.resumeToken,
+      });
+      expect(resumed.succeeded.map(r => r.fields.Name)).toEqual(
+        records.slice(0, 10).map(r => r.fields.Name)
+      );
+      expect(resumed.resumeToken).toBeUndefined();
+    });
+
+    it('should throw the first error without returnResult', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(failure);
+
+      await expect(
+        table.deleteBatch(['rec1', 'rec2'], { continueOnError: true })
+      ).rejects.toThrow('Bad value');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send chunks concurrently', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      (global.fetch as jest.Mock).mockImplementation(async (_url, init) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return created(init.body);
+      });
+
+      const result = await table.createBatch(records, { concurrency: 3 });
+
+      expect(result.map(r => r.fields.Name)).toEqual(
+        records.map(r => r.fields.Name)
+      );
+      expect(maxInFlight).toBe(3);
+    });
+
+    it('should reject resume tokens that do not match the input', async () => {
+      await expect(
+        table.deleteBatch(['rec1'], { returnResult: true, resumeToken: '5-9' })
+      ).rejects.toMatchObject({ errorType: 'INVALID_RESUME_TOKEN' });
+    });
+  });
 });
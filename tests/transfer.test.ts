@@ -0,0 +1,185 @@
+import { AirtableClient } from '../src/client';
+import { MockAirtable } from '../src/mock';
+import { AirtableTable } from '../src/table';
+import { parseRows } from '../src/transfer';
+
+type Product = {
+  SKU?: string;
+  Name?: string;
+  Price?: number;
+  InStock?: boolean;
+};
+
+describe('import and export', () => {
+  let mock: MockAirtable;
+  let table: AirtableTable<Product>;
+
+  const collect = () => {
+    const chunks: Uint8Array[] = [];
+    const stream = new WritableStream<Uint8Array>({
+      write: chunk => {
+        chunks.push(chunk);
+      },
+    });
+    return {
+      stream,
+      text: () => Buffer.concat(chunks).toString('utf8'),
+    };
+  };
+
+  beforeEach(() => {
+    mock = new MockAirtable({ apiKey: 'test-key' });
+    mock.createTable('appShop', 'Products', {
+      fields: {
+        SKU: 'singleLineText',
+        Name: 'singleLineText',
+        Price: 'number',
+        InStock: 'checkbox',
+      },
+      records: [
+        { SKU: 'A1', Name: 'Anvil, heavy', Price: 10, InStock: true },
+        { SKU: 'B2', Name: 'The "Bolt"', Price: 1 },
+      ],
+    });
+    table = new AirtableClient({
+      apiKey: 'test-key',
+      fetch: mock.fetch,
+      rateLimit: false,
+    })
+      .base('appShop')
+      .table<Product>('Products');
+  });
+
+  it('should export CSV with quoted values', async () => {
+    const output = collect();
+
+    const count = await table.exportTo(output.stream, {
+      format: 'csv',
+      fields: ['SKU', 'Name', 'Price'],
+      pageSize: 1,
+    });
+
+    expect(count).toBe(2);
+    expect(output.text()).toBe(
+      'SKU,Name,Price\r\nA1,"Anvil, heavy",10\r\nB2,"The ""Bolt""",1\r\n'
+    );
+  });
+
+  it('should export NDJSON records', async () => {
+    const output = collect();
+
+    await table.exportTo(output.stream, { format: 'ndjson' });
+
+    const lines = output
+      .text()
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line));
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({
+      id: expect.stringMatching(/^rec/),
+      fields: { SKU: 'A1', Price: 10 },
+    });
+  });
+
+  it('should import CSV rows and report failures by line', async () => {
+    const csv = [
+      'Code,Title,Cost,Stock',
+      'C3,Crate,5,yes',
+      'D4,"Drill',
+      'with bits",abc,no',
+      'E5,Epoxy,7.5,',
+    ].join('\n');
+
+    const result = await table.importFrom(csv, {
+      format: 'csv',
+      mapping: {
+        SKU: 'Code',
+        Name: 'Title',
+        Price: { column: 'Cost', type: 'number' },
+        InStock: { column: 'Stock', type: 'boolean' },
+      },
+      batchSize: 1,
+    });
+
+    expect(result.rows).toBe(3);
+    expect(result.records.map(record => record.fields)).toEqual([
+      { SKU: 'C3', Name: 'Crate', Price: 5, InStock: true },
+      { SKU: 'E5', Name: 'Epoxy', Price: 7.5 },
+    ]);
+    expect(result.failed).toEqual([
+      {
+        line: 3,
+        row: {
+          Code: 'D4',
+          Title: 'Drill\nwith bits',
+          Cost: 'abc',
+          Stock: 'no',
+        },
+        error: expect.objectContaining({ errorType: 'INVALID_IMPORT_VALUE' }),
+      },
+    ]);
+    expect(mock.getRecords('appShop', 'Products')).toHaveLength(4);
+  });
+
+  it('should upsert NDJSON rows and report only the rows Airtable rejects', async () => {
+    const ndjson = [
+      '{"SKU":"A1","Price":12}',
+      'not json',
+      '{"fields":{"SKU":"F6","Name":"File"}}',
+      '{"SKU":"G7","Color":"red"}',
+    ].join('\n');
+
+    const result = await table.importFrom(ndjson, {
+      format: 'ndjson',
+      fieldsToMergeOn: ['SKU'],
+      batchSize: 3,
+    });
+
+    expect(result.rows).toBe(4);
+    expect(result.records.map(record => record.fields.SKU)).toEqual([
+      'A1',
+      'F6',
+    ]);
+    expect(
+      result.failed.map(failure => [failure.line, failure.error.errorType])
+    ).toEqual([
+      [2, 'INVALID_IMPORT_ROW'],
+      [4, 'UNKNOWN_FIELD_NAME'],
+    ]);
+    expect(
+      mock
+        .getRecords('appShop', 'Products')
+        .map(record => [record.fields.SKU, record.fields.Price])
+    ).toEqual([
+      ['A1', 12],
+      ['B2', 1],
+      ['F6', undefined],
+    ]);
+  });
+});
+
+describe('parseRows', () => {
+  it('should parse CSV split across chunks', async () => {
+    const bytes = Buffer.from('\uFEFFName,Note\r\nCafé,"a ""b"""\r\n');
+    async function* chunks() {
+      for (let i = 0; i < bytes.length; i += 3) {
+        yield bytes.subarray(i, i + 3);
+      }
+    }
+
+    const rows = [];
+    for await (const row of parseRows(chunks(), 'csv')) {
+      rows.push(row);
+    }
+
+    expect(rows).toEqual([{ line: 2, row: { Name: 'Café', Note: 'a "b"' } }]);
+  });
+
+  it('should reject an unterminated quoted value', async () => {
+    const rows = parseRows('Name\n"open', 'csv');
+    await expect(rows.next()).rejects.toMatchObject({
+      errorType: 'INVALID_IMPORT_ROW',
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { createHmac } from 'crypto';
+import { AirtableBase } from '../src/base';
+import { WebhookPayload } from '../src/types';
+import { decodeWebhookPayload, verifyWebhookSignature } from '../src/webhooks';
+import { jsonResponse } from './helpers';
+
+const payload = (transaction: number): WebhookPayload => ({
+  timestamp: '2024-01-01T00:00:00.000Z',
+  baseTransactionNumber: transaction,
+  payloadFormat: 'v0',
+  actionMetadata: { source: 'client' },
+  changedTablesById: {
+    tblTasks: {
+      createdRecordsById: {
+        recNew: {
+          createdTime: '2024-01-01T00:00:00.000Z',
+          cellValuesByFieldId: { fldName: 'New' },
+        },
+      },
+      changedRecordsById: {
+        recOld: {
+          current: { cellValuesByFieldId: { fldName: 'After' } },
+          previous: { cellValuesByFieldId: { fldName: 'Before' } },
+        },
+      },
+      destroyedRecordIds: ['recGone'],
+      createdFieldsById: { fldDue: { name: 'Due', type: 'date' } },
+      destroyedFieldIds: ['fldOld'],
+    },
+  },
+});
+
+describe('AirtableWebhooks', () => {
+  let fetchMock: jest.Mock;
+  let base: AirtableBase;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    base = new AirtableBase(
+      'appTest123',
+      'test-key',
+      'https://api.airtable.com/v0',
+      { fetch: fetchMock }
+    );
+  });
+
+  it('should create a webhook', async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({
+        id: 'achWebhook',
+        macSecretBase64: 'c2VjcmV0',
+        expirationTime: '2024-01-08T00:00:00.000Z',
+      })
+    );
+
+    const webhook = await base.webhooks.create({
+      notificationUrl: 'https://example.com/hook',
+      specification: { options: { filters: { dataTypes: ['tableData'] } } },
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.airtable.com/v0/bases/appTest123/webhooks');
+    expect(init.method).toBe('POST');
+    expect(webhook.macSecretBase64).toBe('c2VjcmV0');
+  });
+
+  it('should refresh and toggle notifications', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ expirationTime: '2024-01-15' }))
+      .mockResolvedValueOnce(jsonResponse({}));
+
+    expect(await base.webhooks.refresh('achWebhook')).toBe('2024-01-15');
+    await base.webhooks.enableNotifications('achWebhook', false);
+
+    expect(fetchMock.mock.calls[1][0]).toBe(
+      'https://api.airtable.com/v0/bases/appTest123/webhooks/achWebhook/enableNotifications'
+    );
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({
+      enable: false,
+    });
+  });
+
+  it('should iterate payloads across pages with resumable cursors', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        jsonResponse({
+          payloads: [payload(1), payload(2)],
+          cursor: 7,
+          mightHaveMore: true,
+        })
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          payloads: [payload(3)],
+          cursor: 8,
+          mightHaveMore: false,
+        })
+      );
+
+    const seen = [];
+    for await (const item of base.webhooks.listPayloads('achWebhook', {
+      cursor: 5,
+    })) {
+      seen.push([item.baseTransactionNumber, item.cursor]);
+    }
+
+    expect(seen).toEqual([
+      [1, 6],
+      [2, 7],
+      [3, 8],
+    ]);
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://api.airtable.com/v0/bases/appTest123/webhooks/achWebhook/payloads?cursor=5'
+    );
+    expect(fetchMock.mock.calls[1][0]).toContain('cursor=7');
+  });
+});
+
+describe('decodeWebhookPayload', () => {
+  it('should flatten record and field changes', () => {
+    expect(decodeWebhookPayload(payload(1))).toEqual([
+      {
+        type: 'recordCreated',
+        tableId: 'tblTasks',
+        recordId: 'recNew',
+        createdTime: '2024-01-01T00:00:00.000Z',
+        cellValuesByFieldId: { fldName: 'New' },
+      },
+      {
+        type: 'recordChanged',
+        tableId: 'tblTasks',
+        recordId: 'recOld',
+        current: { fldName: 'After' },
+        previous: { fldName: 'Before' },
+        unchanged: undefined,
+      },
+      { type: 'recordDestroyed', tableId: 'tblTasks', recordId: 'recGone' },
+      {
+        type: 'fieldCreated',
+        tableId: 'tblTasks',
+        fieldId: 'fldDue',
+        field: { name: 'Due', type: 'date' },
+      },
+      { type: 'fieldDestroyed', tableId: 'tblTasks', fieldId: 'fldOld' },
+    ]);
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  const secret = Buffer.from('webhook-secret').toString('base64');
+  const body = JSON.stringify({
+    base: { id: 'appTest123' },
+    webhook: { id: 'achWebhook' },
+    timestamp: '2024-01-01T00:00:00.000Z',
+  });
+  const mac = `hmac-sha256=${createHmac('sha256', 'webhook-secret')
+    .update(body)
+    .digest('hex')}`;
+
+  it('should accept a valid signature', () => {
+    expect(verifyWebhookSignature(body, mac, secret)).toBe(true);
+  });
+
+  it('should reject a tampered body or missing header', () => {
+    expect(verifyWebhookSignature(`${body} `, mac, secret)).toBe(false);
+    expect(verifyWebhookSignature(body, undefined, secret)).toBe(false);
+  });
+});